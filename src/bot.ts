@@ -0,0 +1,254 @@
+import EventEmitter from "node:events";
+import type { GameOptions, NavalClient, NavalClientEvents, Player } from "./client.js";
+import type { Fleet } from "./fleet.js";
+import type { NotificationMessage } from "./message.js";
+import { GameState } from "./state.js";
+import type { TargetingStrategy } from "./targeting.js";
+
+/**
+ * The client events a bot listens to.
+ */
+type BotEvent = "connect" | "begin" | "canFire" | "moveAnswered" | "gameOver" | "restartRequested" | "restart";
+
+/**
+ * The bot's listener for each client event it listens to.
+ */
+type BotListeners = { [Event in BotEvent]: (...args: NavalClientEvents[Event]) => void };
+
+/**
+ * Builds a complete fleet for a game.
+ */
+export type PlacementPolicy = (gameOptions: GameOptions) => Fleet;
+
+/**
+ * A shot fired during a game, by either player.
+ */
+export type Turn = {
+    /**
+     * The player who fired.
+     */
+    player: Player,
+
+    /**
+     * Where the shot landed.
+     */
+    position: [number, number],
+
+    /**
+     * The answer to the shot.
+     */
+    notification: NotificationMessage,
+
+    /**
+     * How many shots have been fired this game, including this one.
+     */
+    number: number
+}
+
+/**
+ * Chat lines sent by a bot as the game goes on. Return nothing to stay quiet.
+ */
+export type Banter = {
+    greeting?: (opponent: Player) => string | void,
+    hit?: (notification: NotificationMessage) => string | void,
+    sink?: (notification: NotificationMessage) => string | void,
+    hitTaken?: (notification: NotificationMessage) => string | void,
+    win?: (opponent: Player) => string | void,
+    lose?: (opponent: Player) => string | void
+}
+
+/**
+ * Options for a {@link NavalBot}.
+ */
+export type NavalBotOptions = {
+    /**
+     * Builds the bot's fleet at the start of every game.
+     */
+    placement: PlacementPolicy,
+
+    /**
+     * Picks where the bot fires.
+     */
+    targeting: TargetingStrategy,
+
+    /**
+     * Whether to send Begin as soon as ships are placed, rather than waiting for the other client.
+     * Defaults to `true` when hosting, so two bots don't both wait for each other. After a restart, defaults to `true` when
+     * the other client fired first in the last game, so two bots take turns firing first.
+     */
+    sendBegin?: boolean,
+
+    /**
+     * Whether to accept the other client's restart requests, and to place a new fleet after a game ends,
+     * ready for the other client to start another one.
+     */
+    acceptRestarts?: boolean,
+
+    /**
+     * Whether to ask the other client for a restart after a game ends.
+     */
+    requestRestarts?: boolean,
+
+    /**
+     * Chat lines to send as the game goes on.
+     */
+    banter?: Banter,
+
+    /**
+     * Called after every shot, by either player.
+     */
+    onTurn?: (turn: Turn) => void,
+
+    /**
+     * Called when the bot fails to play, e.g. a shot was refused. Defaults to emitting the bot's `error` event.
+     */
+    onError?: (err: Error) => void
+}
+
+/**
+ * Plays whole games with a {@link NavalClient}: places ships, answers incoming shots, fires when it can and sends game over.
+ * @example ```ts
+ * const client = new NavalClient("Bot");
+ * const bot = new NavalBot(client, {
+ *     placement: (gameOptions) => myFleet(gameOptions),
+ *     targeting: new HuntTargetStrategy()
+ * });
+ *
+ * bot.start();
+ * client.connect(54321, "127.0.0.1");
+ * ```
+ */
+export class NavalBot extends EventEmitter<{
+    // The bot failed to play
+    error: [Error]
+}> {
+    /**
+     * The bot failed to play, e.g. a shot was refused or the connection closed before it was answered.
+     * 
+     * Unlike most `error` events, failures are not thrown when nothing listens to this event.
+     * @event NavalBot#error
+     * @param {Error} err Why the bot failed.
+     */
+
+    #turns = 0;
+    #firedFirst = false;
+    #running = false;
+    #listeners: BotListeners;
+
+    constructor(public client: NavalClient, public options: NavalBotOptions) {
+        super();
+
+        this.#listeners = {
+            connect: (opponent) => {
+                this.#say(this.options.banter?.greeting?.(opponent))
+                this.#prepare(this.client.isHost)
+            },
+            begin: () => {
+                this.#turns = 0
+                this.#firedFirst = this.client.gameState == GameState.FIRE_SHIPS_SELF
+            },
+            canFire: () => {
+                this.#fire().catch(err => this.#fail(err))
+            },
+            moveAnswered: (move, notification) => {
+                if (notification.fieldState !== "Miss") this.#say(this.options.banter?.hitTaken?.(notification))
+
+                this.options.onTurn?.({
+                    player: this.client.opponent!,
+                    position: [move.x, move.y],
+                    notification,
+                    number: ++this.#turns
+                })
+            },
+            gameOver: (winner) => {
+                const opponent = this.client.opponent!;
+
+                this.#say(winner.me ? this.options.banter?.win?.(opponent) : this.options.banter?.lose?.(opponent))
+
+                if (this.options.acceptRestarts) this.#placeFleet()
+                if (this.options.requestRestarts) this.client.requestRestart()
+            },
+            restartRequested: (request) => {
+                if (this.options.acceptRestarts) request.accept()
+                else request.decline()
+            },
+            restart: () => {
+                this.#prepare(!this.#firedFirst)
+            }
+        }
+    }
+
+    /**
+     * Start playing. Call this before the client connects, so that no events are missed.
+     */
+    start() {
+        if (this.#running) return
+        this.#running = true
+
+        for (const [event, listener] of Object.entries(this.#listeners)) {
+            this.client.on(event as BotEvent, listener)
+        }
+    }
+
+    /**
+     * Stop playing, leaving the client to be driven manually.
+     */
+    stop() {
+        if (!this.#running) return
+        this.#running = false
+
+        for (const [event, listener] of Object.entries(this.#listeners)) {
+            this.client.off(event as BotEvent, listener)
+        }
+    }
+
+    /**
+     * Place a fresh fleet and, if configured, tell the other client we are ready.
+     * @param {boolean} begin Whether to tell it when {@link NavalBotOptions.sendBegin} is not set.
+     */
+    #prepare(begin: boolean) {
+        try {
+            this.client.attachFleet(this.options.placement(this.client.gameOptions))
+
+            if (this.options.sendBegin ?? begin) this.client.sendBegin()
+        } catch (err) {
+            this.#fail(err as Error)
+        }
+    }
+
+    /**
+     * Place a fresh fleet without telling the other client, for when it starts the next game.
+     */
+    #placeFleet() {
+        try {
+            this.client.attachFleet(this.options.placement(this.client.gameOptions))
+        } catch (err) {
+            this.#fail(err as Error)
+        }
+    }
+
+    async #fire() {
+        const position = this.options.targeting.nextTarget(this.client.opponentBoard, this.client.gameOptions);
+        const notification = await this.client.sendFireAt(position);
+
+        if (notification.fieldState == "Sink") this.#say(this.options.banter?.sink?.(notification))
+        else if (notification.fieldState == "Hit") this.#say(this.options.banter?.hit?.(notification))
+
+        this.options.onTurn?.({
+            player: { me: true, nickname: this.client.nickname },
+            position,
+            notification,
+            number: ++this.#turns
+        })
+    }
+
+    #say(text: string | void) {
+        if (text) this.client.sendChatMessage(text)
+    }
+
+    #fail(err: Error) {
+        if (this.options.onError) return this.options.onError(err)
+
+        if (this.listenerCount('error')) this.emit('error', err)
+    }
+}
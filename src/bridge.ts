@@ -0,0 +1,303 @@
+import EventEmitter from "node:events";
+import type { IncomingMessage } from "node:http";
+import { isIPv4 } from "node:net";
+import { WebSocketServer, type ServerOptions, type WebSocket } from "ws";
+import { NavalClient, type GameOptions, type Player } from "./client.js";
+import { Fleet } from "./fleet.js";
+import type { MoveMessage, NotificationMessage } from "./message.js";
+import type { RecordedShip } from "./recorder.js";
+
+/**
+ * A command sent by a WebSocket client to drive its {@link NavalClient}. Every command is a JSON object with a `type`.
+ *
+ * - `connect`: join a game, like {@link NavalClient.connect}.
+ * - `listen`: host a game, like {@link NavalClient.listen}.
+ * - `attachFleet`: place ships and have incoming shots answered automatically, like {@link NavalClient.attachFleet}.
+ * - `sendBegin`: tell the other client this client is ready.
+ * - `sendFireAt`: fire at the other client's shipyard. A `fired` event follows with the answer.
+ * - `sendMoveResponse`: answer the last `move` event, when no fleet is attached.
+ * - `sendChatMessage`: send a chat message.
+ * - `sendGameOver`: admit defeat, after answering the shot that sank the last ship when no fleet is attached.
+ * - `disconnect`: leave the game. The WebSocket stays open, so another game can be joined.
+ */
+export type BridgeCommand =
+    | { type: "connect", host: string, port?: number }
+    | { type: "listen", port?: number }
+    | { type: "attachFleet", ships: RecordedShip[] }
+    | { type: "sendBegin" }
+    | { type: "sendFireAt", x: number, y: number }
+    | { type: "sendMoveResponse", result: "hit" | "miss" | "sink", sinkCoordinates?: [[number, number], [number, number]] }
+    | { type: "sendChatMessage", text: string }
+    | { type: "sendGameOver" }
+    | { type: "disconnect" };
+
+/**
+ * An event sent to a WebSocket client as its {@link NavalClient} plays. Every event is a JSON object with an `event`.
+ *
+ * Events mirror the client's own events of the same name, except `fired`, which answers a `sendFireAt` command,
+ * and `error`, which also reports commands that failed.
+ */
+export type BridgeEvent =
+    | { event: "connect", opponent: Player, gameOptions: GameOptions }
+    | { event: "begin" }
+    | { event: "move", x: number, y: number }
+    | { event: "moveAnswered", x: number, y: number, result: NotificationMessage["fieldState"] }
+    | { event: "canFire" }
+    | { event: "fired", x: number, y: number, result: NotificationMessage["fieldState"], sinkCoordinates?: [[number, number], [number, number]] }
+    | { event: "chat", nickname: string, text: string }
+    | { event: "gameOver", winner: Player }
+    | { event: "disconnect", reason: string }
+    | { event: "error", message: string, command?: BridgeCommand["type"] };
+
+/**
+ * Options for a {@link NavalBridge}, as well as those of `ws`'s `WebSocketServer`, such as `port` or `server`.
+ */
+export type NavalBridgeOptions = ServerOptions & {
+    /**
+     * Creates the client for a new WebSocket session. Defaults to a plain {@link NavalClient}.
+     * @param {string} nickname The `nickname` query parameter of the WebSocket URL, or `"Player"`.
+     */
+    createClient?: (nickname: string, request: IncomingMessage) => NavalClient,
+
+    /**
+     * Decides whether a session may connect to, or listen on, an address. Defaults to {@link allowLoopbackPeers}.
+     *
+     * Sessions come from any web page that can reach the bridge, so allow no more than the front-end needs.
+     */
+    allowPeer?: PeerPolicy
+}
+
+/**
+ * Decides whether a session may connect to, or listen on, an address.
+ * @param {string | undefined} host The host to connect to, or `undefined` when listening.
+ * @param {number} port The port to connect to or listen on.
+ */
+export type PeerPolicy = (host: string | undefined, port: number) => boolean;
+
+/**
+ * A {@link PeerPolicy} that only lets sessions connect to KNavalBattle on the bridge's own machine, and never listen.
+ */
+export const allowLoopbackPeers: PeerPolicy = (host) => {
+    if (host === undefined) return false
+
+    return host == "localhost" || host == "::1" || host == "[::1]" || (isIPv4(host) && host.startsWith("127."))
+}
+
+/**
+ * Runs one {@link NavalClient} per WebSocket session, so that front-ends which cannot open raw TCP sockets, like browsers, can play KNavalBattle.
+ *
+ * Sessions send {@link BridgeCommand}s and receive {@link BridgeEvent}s, as JSON text frames. This module needs the optional `ws` package.
+ * @extends {EventEmitter}
+ * @example ```ts
+ * const bridge = new NavalBridge({ port: 8080 });
+ *
+ * // In the browser:
+ * const socket = new WebSocket("ws://localhost:8080/?nickname=Alice");
+ *
+ * socket.onopen = () => socket.send(JSON.stringify({ type: "connect", host: "192.168.1.20", port: 54321 }));
+ * socket.onmessage = ({ data }) => console.log(JSON.parse(data));
+ * ```
+ */
+export class NavalBridge extends EventEmitter<{
+    // A WebSocket session started, with its own client
+    session: [NavalClient, WebSocket]
+
+    // The WebSocket server or a session's WebSocket failed
+    error: [Error]
+}> {
+    /**
+     * A WebSocket session started.
+     * @event NavalBridge#session
+     * @param {NavalClient} client The client the session drives.
+     * @param {WebSocket} socket The session's WebSocket.
+     */
+
+    /**
+     * The WebSocket server or a session's WebSocket failed. A session whose WebSocket fails is closed.
+     * @event NavalBridge#error
+     * @param {Error} err The error that occurred.
+     */
+
+    /**
+     * The underlying WebSocket server.
+     */
+    server: WebSocketServer;
+
+    /**
+     * The client of every open session.
+     */
+    sessions = new Map<WebSocket, NavalClient>();
+
+    #createClient: NonNullable<NavalBridgeOptions["createClient"]>;
+    #allowPeer: NonNullable<NavalBridgeOptions["allowPeer"]>;
+
+    constructor(options: NavalBridgeOptions = {}) {
+        super();
+
+        const { createClient, allowPeer, ...serverOptions } = options;
+
+        this.#createClient = createClient ?? ((nickname) => new NavalClient(nickname))
+        this.#allowPeer = allowPeer ?? allowLoopbackPeers
+
+        this.server = new WebSocketServer(serverOptions)
+        this.server.on('connection', (socket, request) => this.#open(socket, request))
+        this.server.on('error', (err) => this.#emitError(err))
+    }
+
+    /**
+     * Disconnect every session's client and stop the WebSocket server.
+     */
+    close(): Promise<void> {
+        for (const socket of this.sessions.keys()) socket.close(1001, 'bridge closing')
+
+        return new Promise((resolve, reject) => this.server.close((err) => err ? reject(err) : resolve()))
+    }
+
+    #open(socket: WebSocket, request: IncomingMessage) {
+        const nickname = new URL(request.url ?? '/', 'ws://localhost').searchParams.get('nickname') || 'Player';
+        const client = this.#createClient(nickname, request);
+        const send = (event: BridgeEvent) => {
+            if (socket.readyState == socket.OPEN) socket.send(JSON.stringify(event))
+        };
+
+        let lastMove: MoveMessage | undefined;
+
+        client.on('connect', (opponent) => send({ event: "connect", opponent, gameOptions: client.gameOptions }))
+        client.on('begin', () => send({ event: "begin" }))
+        client.on('move', (move) => {
+            lastMove = move
+            send({ event: "move", x: move.x, y: move.y })
+        })
+        client.on('moveAnswered', (move, notification) => send({ event: "moveAnswered", x: move.x, y: move.y, result: notification.fieldState }))
+        client.on('canFire', () => send({ event: "canFire" }))
+        client.on('chat', (message) => send({ event: "chat", nickname: message.nickname, text: message.text }))
+        client.on('gameOver', (winner) => send({ event: "gameOver", winner }))
+        client.on('disconnect', (reason) => send({ event: "disconnect", reason }))
+        client.on('error', (err) => send({ event: "error", message: err.message }))
+
+        socket.on('message', (data) => {
+            let command: BridgeCommand;
+
+            try {
+                command = JSON.parse(data.toString());
+            } catch {
+                return send({ event: "error", message: 'command is not valid JSON' })
+            }
+
+            try {
+                this.#run(client, command, lastMove, send)
+            } catch (err) {
+                send({ event: "error", message: (err as Error).message, command: command?.type })
+            }
+        })
+
+        // E.g. a frame that breaks the WebSocket protocol: drop the session, which disconnects its client.
+        socket.on('error', (err) => {
+            this.#emitError(err)
+            socket.terminate()
+        })
+
+        socket.on('close', () => {
+            this.sessions.delete(socket)
+
+            try {
+                client.disconnect()
+            } catch {
+                // The client was not connected.
+            }
+        })
+
+        this.sessions.set(socket, client)
+        this.emit('session', client, socket)
+    }
+
+    #run(client: NavalClient, command: BridgeCommand, lastMove: MoveMessage | undefined, send: (event: BridgeEvent) => void) {
+        const failed = (err: Error) => send({ event: "error", message: err.message, command: command.type });
+
+        switch (command?.type) {
+            case "connect":
+            case "listen": {
+                const host = command.type == "connect" ? command.host : undefined;
+                const port = command.port ?? 54321;
+
+                if (command.type == "connect" && typeof host !== "string") throw new Error('host must be a string')
+                if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error('port must be an integer from 1 to 65535')
+                if (!this.#allowPeer(host, port)) throw new Error(`not allowed to ${command.type} to ${host ?? 'port'} ${port}`)
+
+                return (host === undefined ? client.listen(port) : client.connect(port, host)).catch(failed)
+            }
+
+            case "attachFleet": {
+                if (!Array.isArray(command.ships)) throw new Error('ships must be a list')
+
+                const fleet = new Fleet(client.gameOptions);
+
+                command.ships.forEach((ship: Partial<RecordedShip>, i) => {
+                    if (typeof ship?.name !== "string") throw new Error(`ship ${i + 1} has no "name"`)
+                    if (!Number.isInteger(ship.x) || !Number.isInteger(ship.y)) throw new Error(`ship "${ship.name}" needs integer "x" and "y" co-ordinates`)
+                    if (ship.orientation !== "horizontal" && ship.orientation !== "vertical") throw new Error(`ship "${ship.name}" must be "horizontal" or "vertical"`)
+
+                    fleet.place(ship.name, ship.x!, ship.y!, ship.orientation)
+                })
+
+                return client.attachFleet(fleet)
+            }
+
+            case "sendBegin":
+                return client.sendBegin()
+
+            case "sendFireAt": {
+                const { boardWidth, boardHeight } = client.gameOptions;
+
+                if (!client.opponentBoard.inBounds(command.x, command.y)) throw new Error(`x and y must be integers inside the ${boardWidth}x${boardHeight} board`)
+
+                return client.sendFireAt([command.x, command.y]).then(notification => send({
+                    event: "fired",
+                    x: notification.x,
+                    y: notification.y,
+                    result: notification.fieldState,
+                    sinkCoordinates: notification.sinkCoordinates
+                }), failed)
+            }
+
+            case "sendMoveResponse": {
+                if (!lastMove) throw new Error('no shot to answer')
+
+                if (command.result == "sink") {
+                    const coordinates = command.sinkCoordinates;
+                    const valid = Array.isArray(coordinates) && coordinates.length == 2
+                        && coordinates.every(pair => Array.isArray(pair) && pair.length == 2 && client.opponentBoard.inBounds(pair[0], pair[1]));
+
+                    if (!valid) throw new Error('a sink needs sinkCoordinates: the [x, y] of both ends of the ship')
+
+                    return client.sendMoveResponse(lastMove.respond("sink", coordinates))
+                }
+
+                if (command.result !== "hit" && command.result !== "miss") throw new Error('result must be "hit", "miss" or "sink"')
+
+                return client.sendMoveResponse(lastMove.respond(command.result))
+            }
+
+            case "sendChatMessage":
+                if (typeof command.text !== "string") throw new Error('text must be a string')
+
+                return client.sendChatMessage(command.text)
+
+            case "sendGameOver":
+                return client.sendGameOver()
+
+            case "disconnect":
+                return client.disconnect()
+
+            default:
+                throw new Error(`unknown command "${(command as { type?: string })?.type}"`)
+        }
+    }
+
+    /**
+     * Report an error, without throwing when nobody is listening.
+     */
+    #emitError(err: Error) {
+        if (this.listenerCount('error')) this.emit('error', err)
+    }
+}
@@ -0,0 +1,362 @@
+#!/usr/bin/env node
+import { userInfo } from "node:os";
+import { createInterface } from "node:readline";
+import { parseArgs } from "node:util";
+import { NavalBot } from "./bot.js";
+import { NavalClient, type GameOptions, type Player } from "./client.js";
+import { Fleet } from "./fleet.js";
+import type { MoveMessage, NotificationMessage } from "./message.js";
+import { CellState } from "./opponent.js";
+import { generateFleet, randomPlacement } from "./placement.js";
+import { GameState } from "./state.js";
+import { ProbabilityDensityStrategy } from "./targeting.js";
+
+const USAGE = `Usage:
+  knavalbattle host [port]          Host a game, as KNavalBattle does with "Host game"
+  knavalbattle join <host> [port]   Join a game, as KNavalBattle does with "Connect to game"
+
+Options:
+  -n, --nick <name>   Your nickname (default: your user name)
+  -r, --random        Place your ships randomly
+  -b, --bot           Let a bot play for you
+  -h, --help          Show this help
+
+While playing, type a co-ordinate like B7 to fire, "/say <text>" to chat,
+"/restart" to ask for another game and "/quit" to leave.`;
+
+const colour = process.stdout.isTTY && !process.env.NO_COLOR;
+const paint = (code: number, text: string) => colour ? `\x1b[${code}m${text}\x1b[0m` : text;
+
+/**
+ * Print an error and the usage, then exit.
+ */
+function usageError(message: string): never {
+    console.error(paint(31, message))
+    console.log(USAGE)
+    process.exit(1)
+}
+
+function parseCommandLine() {
+    try {
+        return parseArgs({
+            allowPositionals: true,
+            options: {
+                nick: { type: "string", short: "n" },
+                random: { type: "boolean", short: "r" },
+                bot: { type: "boolean", short: "b" },
+                help: { type: "boolean", short: "h" }
+            }
+        })
+    } catch (err) {
+        // E.g. an unknown option, or --nick without a name.
+        return usageError((err as Error).message)
+    }
+}
+
+const { values, positionals } = parseCommandLine();
+const [command, ...rest] = positionals;
+
+if (values.help || (command !== "host" && command !== "join") || (command == "join" && !rest[0])) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+}
+
+const portArg = (command == "host" ? rest[0] : rest[1]) ?? "54321";
+const port = Number(portArg);
+
+if (!Number.isInteger(port) || port < 1 || port > 65535) usageError(`Port must be a number from 1 to 65535, not "${portArg}".`)
+
+const client = new NavalClient(values.nick ?? userInfo().username);
+const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+/**
+ * Shots the other client fired at our fleet this game, and whether they hit.
+ */
+let incoming = new Map<string, boolean>();
+
+/**
+ * Ships still to be placed, when placing interactively.
+ */
+let toPlace: string[] = [];
+let fleet: Fleet | undefined;
+let pendingMove: MoveMessage | undefined;
+let answerRestart: ((accept: boolean) => void) | undefined;
+
+/**
+ * Name a column like a spreadsheet: A to Z, then AA, AB...
+ */
+function columnName(x: number): string {
+    return x < 26 ? String.fromCharCode(65 + x) : columnName(Math.floor(x / 26) - 1) + columnName(x % 26)
+}
+
+function formatPosition(x: number, y: number): string {
+    return `${columnName(x)}${y + 1}`
+}
+
+/**
+ * Read a co-ordinate like `B7`.
+ * @returns The column and row, or `undefined` if the text is not a co-ordinate on the board.
+ */
+function parsePosition(text: string, gameOptions: GameOptions): [number, number] | undefined {
+    const match = /^([a-z]+)(\d+)$/i.exec(text.trim());
+
+    if (!match) return undefined
+
+    const x = [...match[1]!.toUpperCase()].reduce((column, letter) => column * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+    const y = Number(match[2]) - 1;
+
+    if (x >= gameOptions.boardWidth || y < 0 || y >= gameOptions.boardHeight) return undefined
+
+    return [x, y]
+}
+
+function ownCell(x: number, y: number): string {
+    const shot = incoming.get(`${x},${y}`);
+
+    if (shot) return paint(31, "✖")
+    if (fleet?.shipAt(x, y)) return paint(37, "■")
+    if (shot === false) return paint(90, "○")
+
+    return paint(34, "·")
+}
+
+function opponentCell(x: number, y: number): string {
+    switch (client.opponentBoard.cellState(x, y)) {
+        case CellState.Miss: return paint(90, "○")
+        case CellState.Hit: return paint(33, "✖")
+        case CellState.Sunk: return paint(31, "█")
+        case CellState.Impossible: return paint(90, " ")
+        default: return paint(34, "·")
+    }
+}
+
+/**
+ * Draw both boards side by side.
+ */
+function render() {
+    const { boardWidth, boardHeight } = client.gameOptions;
+    const label = String(boardHeight).length;
+    const header = " ".repeat(label + 1) + Array.from({ length: boardWidth }, (_, x) => columnName(x).padEnd(2)).join("");
+    const gap = "    ";
+    const title = (text: string) => text.padEnd(header.length);
+
+    console.log()
+    console.log(title(`${client.nickname}'s fleet`) + gap + `${client.opponent?.nickname ?? "Opponent"}'s waters`)
+    console.log(header + gap + header)
+
+    for (let y = 0; y < boardHeight; y++) {
+        const row = (cell: (x: number, y: number) => string) =>
+            String(y + 1).padStart(label) + " " + Array.from({ length: boardWidth }, (_, x) => cell(x, y) + " ").join("");
+
+        console.log(row(ownCell) + gap + row(opponentCell))
+    }
+
+    console.log()
+}
+
+function describe(notification: NotificationMessage): string {
+    if (notification.fieldState == "Sink") return paint(31, "sunk a ship!")
+    if (notification.fieldState == "Hit") return paint(33, "hit!")
+
+    return "miss."
+}
+
+function promptPlacement() {
+    render()
+    console.log(`Place your ${toPlace[0]}: type where it starts, like A1, adding "v" to place it vertically (A1 v), or "random" to place the rest randomly.`)
+}
+
+function startPlacing() {
+    incoming = new Map()
+
+    if (values.random) return finishPlacing(generateFleet(client.gameOptions))
+
+    fleet = new Fleet(client.gameOptions)
+    toPlace = client.gameOptions.shipDefinitions.flatMap(definition => Array(definition.number).fill(definition.name))
+
+    promptPlacement()
+}
+
+function place(line: string) {
+    if (line == "random") {
+        const placed = [...fleet!.ships];
+
+        try {
+            return finishPlacing(generateFleet(client.gameOptions, { fleet }))
+        } catch {
+            fleet!.ships = placed
+            return console.log("Could not fit the rest of your ships, try placing them yourself.")
+        }
+    }
+
+    const [text = "", direction = "h"] = line.split(/\s+/);
+    const position = parsePosition(text, client.gameOptions);
+
+    if (!position || !["h", "v"].includes(direction)) return console.log(`"${line}" is not a position, try something like A1 or A1 v.`)
+
+    try {
+        fleet!.place(toPlace[0]!, ...position, direction == "v" ? "vertical" : "horizontal")
+    } catch (err) {
+        return console.log(`Cannot place it there: ${(err as Error).message}.`)
+    }
+
+    toPlace.shift()
+
+    if (toPlace.length) promptPlacement()
+    else finishPlacing(fleet!)
+}
+
+function finishPlacing(placed: Fleet) {
+    fleet = placed
+    toPlace = []
+    client.attachFleet(placed)
+
+    // The other client may already have started, and fired before our ships were ready.
+    if (pendingMove) {
+        const notification = placed.respond(pendingMove);
+
+        pendingMove = undefined
+        client.sendMoveResponse(notification)
+        if (placed.defeated) client.sendGameOver()
+        return
+    }
+
+    if (client.gameState == GameState.SHIP_SETUP) {
+        client.sendBegin()
+        render()
+        console.log(`Waiting for ${client.opponent!.nickname} to place their ships...`)
+    }
+}
+
+function fire(line: string) {
+    const position = parsePosition(line, client.gameOptions);
+
+    if (!position) return console.log(`"${line}" is not on the board, try something like B7.`)
+
+    client.sendFireAt(position).then(notification => {
+        console.log(`You fired at ${formatPosition(...position)}: ${describe(notification)}`)
+    }, (err: Error) => console.log(`Could not fire: ${err.message}`))
+}
+
+function handleLine(input: string) {
+    const line = input.trim();
+
+    if (!line) return
+
+    if (line == "/quit") return quit()
+    if (line.startsWith("/say ")) return client.sendChatMessage(line.slice(5))
+
+    if (line == "/restart") {
+        if (answerRestart) return answerRestart(true)
+        return client.requestRestart()
+    }
+
+    if (line == "/decline" && answerRestart) return answerRestart(false)
+
+    if (values.bot) return console.log('The bot is playing, type "/say <text>" to chat or "/quit" to leave.')
+    if (toPlace.length) return place(line)
+    if (client.gameState == GameState.FIRE_SHIPS_SELF) return fire(line)
+
+    console.log("It is not your turn.")
+}
+
+function quit() {
+    rl.close()
+
+    try {
+        client.disconnect()
+    } catch {
+        process.exit()
+    }
+}
+
+client.on('listening', () => console.log(`Waiting for a player on port ${port}...`))
+client.on('chat', (message) => console.log(`${paint(36, `<${message.nickname}>`)} ${message.text}`))
+client.on('error', (err) => console.error(paint(31, `Error: ${err.message}`)))
+client.on('disconnect', (reason) => console.log(`Disconnected: ${reason}`))
+client.on('close', () => {
+    rl.close()
+    process.exit()
+})
+
+client.on('move', (move) => {
+    // Only happens when the other client fires before our ships are placed.
+    pendingMove = move
+})
+
+client.on('moveAnswered', (move, notification) => {
+    incoming.set(`${move.x},${move.y}`, notification.fieldState !== "Miss")
+
+    if (!values.bot) console.log(`${client.opponent!.nickname} fired at ${formatPosition(move.x, move.y)}: ${describe(notification)}`)
+})
+
+client.on('canFire', () => {
+    if (values.bot) return
+
+    render()
+    console.log("Your turn! Where do you fire?")
+})
+
+client.on('begin', () => {
+    if (!values.bot) return console.log("The game has begun!")
+
+    // The bot placed a new fleet for this game.
+    incoming = new Map()
+    fleet = client.fleet
+})
+
+client.on('gameOver', (winner: Player) => {
+    const { wins, losses } = client.session;
+
+    render()
+    console.log(winner.me ? paint(32, "You won!") : paint(31, `${winner.nickname} won!`), `(${wins}-${losses} this session)`)
+    console.log('Type "/restart" to play again or "/quit" to leave.')
+})
+
+client.on('restartRequested', (request) => {
+    console.log(`${client.opponent!.nickname} wants to play again: type "/restart" to accept or "/decline".`)
+
+    answerRestart = (accept) => {
+        answerRestart = undefined
+
+        if (accept) request.accept()
+        else request.decline()
+    }
+})
+
+client.on('restart', () => {
+    answerRestart = undefined
+    console.log("A new game is starting.")
+
+    if (!values.bot) startPlacing()
+})
+
+client.on('connect', (opponent) => {
+    const { boardWidth, boardHeight, shipDefinitions } = client.gameOptions;
+
+    console.log(`Playing against ${opponent.nickname} on a ${boardWidth}x${boardHeight} board with ${shipDefinitions.map(definition => `${definition.number} ${definition.number == 1 ? definition.name : definition.plural} (${definition.size})`).join(", ")}.`)
+
+    if (!values.bot) startPlacing()
+})
+
+if (values.bot) {
+    new NavalBot(client, {
+        placement: randomPlacement(),
+        targeting: new ProbabilityDensityStrategy(),
+        acceptRestarts: true,
+        onTurn: (turn) => {
+            if (turn.player.me) render()
+
+            console.log(`${turn.player.nickname} fired at ${formatPosition(...turn.position)}: ${describe(turn.notification)}`)
+        }
+    }).start()
+}
+
+rl.on('line', handleLine)
+
+const connected = command == "host" ? client.listen(port) : client.connect(port, rest[0]);
+
+connected.catch((err: Error) => {
+    console.error(paint(31, `Could not start the game: ${err.message}`))
+    process.exit(1)
+})
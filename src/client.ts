@@ -8,56 +8,180 @@ import {
     BeginMessage, 
     MoveMessage, 
     ChatMessage, 
+    RejectMessage,
     NickMessage, 
+    MessageType,
     Message
 } from "./message.js";
+import { MessageDecoder } from "./decoder.js";
+import type { Fleet } from "./fleet.js";
+import { OpponentBoard } from "./opponent.js";
 import EventEmitter from "node:events";
-import { createConnection, type Socket } from 'node:net';
+import { TcpTransport, type Transport } from "./transport.js";
+import { StateError, TimeoutError } from "./errors.js";
+import { GameState, checkTransition, findTransition } from "./state.js";
+import { createServer, type Server } from 'node:net';
+import { DEFAULT_GAME_OPTIONS, validateGameOptions, type GameOptions } from "./options.js";
+
+export { GameState } from "./state.js";
+export { DEFAULT_GAME_OPTIONS, type GameOptions } from "./options.js";
+
+/**
+ * How a client introduces itself in its {@link HeaderMessage}.
+ */
+export type ClientIdentity = {
+    protocolVersion: string,
+    clientName: string,
+    clientVersion: number,
+    clientDescription: string
+}
 
 /**
- * The multiple states a game of KNavalBattle can be in.
+ * Decides whether to play with another client, given its header.
+ * @returns A {@link RejectMessage} to refuse the other client, or nothing to accept it.
  */
-export enum GameState {
+export type HandshakePolicy = (header: HeaderMessage, identity: ClientIdentity) => RejectMessage | void;
+
+/**
+ * Options for a {@link NavalClient}.
+ */
+export type NavalClientOptions = {
+    /**
+     * How this client introduces itself. Unset fields default to the same as KNavalBattle.
+     */
+    identity?: Partial<ClientIdentity>,
+
     /**
-     * Client is not connected to another client.
+     * Decides whether to play with another client. Defaults to {@link requireProtocolVersion}.
      */
-    DISCONNECTED,
+    handshakePolicy?: HandshakePolicy,
 
     /**
-     * One or both clients are setting up their ships.
+     * How long, in milliseconds, {@link NavalClient.sendFireAt} waits for an answer by default. Waits forever if unset.
      */
-    SHIP_SETUP,
+    shotTimeout?: number,
 
     /**
-     * This client can fire at the other client's shipyard.
+     * How long, in milliseconds, the other client may take to fire or to answer a shot before `turnTimeout` is emitted.
      */
-    FIRE_SHIPS_SELF,
+    turnTimeout?: number,
 
     /**
-     * This client must confirm whether the other client's shot was successful.
+     * Whether to connect again when a connection made with {@link NavalClient.connect} is lost.
      */
-    AWAIT_RESPONSE_SELF,
+    reconnect?: boolean | ReconnectOptions,
 
     /**
-     * The other client can fire at this client's shipyard.
+     * The options to offer when hosting, e.g. from a {@link GameOptionsBuilder} or {@link GAME_OPTIONS_PRESETS}.
+     * Defaults to KNavalBattle's. When joining, the host's options are used instead.
      */
-    FIRE_SHIPS_OTHER,
+    gameOptions?: GameOptions
+}
 
+/**
+ * How a {@link NavalClient} connects again after losing its connection.
+ * 
+ * The delay doubles after every failed attempt, from `minDelay` up to `maxDelay`.
+ */
+export type ReconnectOptions = {
     /**
-     * The other client must confirm whether this client's shot was successful.
+     * How many attempts to make before giving up. Defaults to no limit.
      */
-    AWAIT_RESPONSE_OTHER,
+    retries?: number,
 
     /**
-     * Game over!
+     * The delay before the first attempt, in milliseconds. Defaults to 1 second.
+     */
+    minDelay?: number,
+
+    /**
+     * The longest delay between attempts, in milliseconds. Defaults to 30 seconds.
+     */
+    maxDelay?: number
+}
+
+/**
+ * Options for a single {@link NavalClient.sendFireAt} call.
+ */
+export type FireOptions = {
+    /**
+     * How long, in milliseconds, to wait for an answer. Overrides the client's `shotTimeout`.
+     */
+    timeout?: number,
+
+    /**
+     * Stop waiting for an answer when aborted.
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * The identity KNavalBattle itself sends.
+ */
+export const DEFAULT_IDENTITY: ClientIdentity = {
+    protocolVersion: '0.1.0',
+    clientName: 'KBattleship',
+    clientVersion: 4,
+    clientDescription: 'The Naval Battle game'
+}
+
+/**
+ * A {@link HandshakePolicy} that refuses clients speaking a different protocol version.
+ */
+export const requireProtocolVersion: HandshakePolicy = (header, identity) => {
+    if (header.protocolVersion !== identity.protocolVersion) {
+        return new RejectMessage(true, `unsupported protocol version ${header.protocolVersion}, expected ${identity.protocolVersion}`)
+    }
+}
+
+/**
+ * A {@link HandshakePolicy} that plays with any client.
+ */
+export const acceptAnyPeer: HandshakePolicy = () => { }
+
+/**
+ * Scores kept across the games played against one opponent.
+ */
+export type Session = {
+    /**
+     * The opponent's nickname.
+     */
+    opponent?: string,
+    games: number,
+    wins: number,
+    losses: number
+}
+
+/**
+ * The other client's request to restart the game. Answer it with exactly one of its methods.
+ */
+export type RestartRequest = {
+    /**
+     * Restart the game: both clients go back to placing their ships.
+     */
+    accept(): void,
+
+    /**
+     * Keep the current game. The protocol has no refusal message, so the other client is not told.
      */
-    GAME_OVER
+    decline(): void
+}
+
+/**
+ * A shot waiting for an answer, and how to settle its {@link NavalClient.sendFireAt} call if it is still waiting.
+ */
+type PendingShot = {
+    position: [number, number],
+    settle?: {
+        resolve: (notification: NotificationMessage) => void,
+        reject: (err: Error) => void
+    }
 }
 
 /**
  * Represents a player.
  */
-type Player = {
+export type Player = {
     /**
      * Is this player the client?
      */
@@ -70,13 +194,18 @@ type Player = {
 }
 
 /**
- * A client used to interface with KNavalBattle/KBattleship.
- * @extends {EventEmitter}
+ * The arguments of each of a {@link NavalClient}'s events.
  */
-export class NavalClient extends EventEmitter<{
-    // Emitted on all messages sent: the raw XML string is passed as argument
+export type NavalClientEvents = {
+    // Emitted on all messages received: the raw XML string is passed as argument
     raw: [string]
 
+    // Emitted on all messages received: the parsed message is passed as argument
+    message: [Message]
+
+    // Emitted on all messages sent: the message and its raw XML are passed as arguments
+    sent: [Message, string]
+
     // Connected to other client, sends info about them
     connect: [Player]
 
@@ -89,18 +218,79 @@ export class NavalClient extends EventEmitter<{
     // Opponent shot somewhere
     move: [MoveMessage]
 
+    // Opponent shot somewhere and the attached fleet answered
+    moveAnswered: [MoveMessage, NotificationMessage]
+
     // You can fire at a ship!
     canFire: []
 
     // Game over! Player passed is the winner!
     gameOver: [Player]
-}> {
+
+    // Waiting for another client to connect
+    listening: []
+
+    // The other client sent something invalid, or the connection failed
+    error: [Error]
+
+    // The other client introduced itself, sends its header
+    handshake: [HeaderMessage]
+
+    // The other client refused to play with this client
+    rejected: [RejectMessage]
+
+    // The other client is taking too long, sends the state being waited on
+    turnTimeout: [GameState]
+
+    // The connection to the other client is open, before the handshake
+    connected: []
+
+    // The connection to the other client was lost, sends the reason
+    disconnect: [string]
+
+    // About to connect again, sends the attempt number and the delay before it
+    reconnecting: [number, number]
+
+    // The client is fully disconnected and will not reconnect
+    close: []
+
+    // The other client wants to restart the game
+    restartRequested: [RestartRequest]
+
+    // The game restarted, ships must be placed again
+    restart: []
+
+    // The game state changed: the old state, the new state and the message or event that caused it
+    stateChange: [GameState, GameState, Message | string]
+
+    // The other client sent a message that is not allowed in the current state, which was ignored
+    protocolViolation: [StateError, Message]
+}
+
+/**
+ * A client used to interface with KNavalBattle/KBattleship.
+ * @extends {EventEmitter}
+ */
+export class NavalClient extends EventEmitter<NavalClientEvents> {
     /**
-     * Emitted on all messages sent: the raw XML string is passed as argument
+     * Emitted on all messages received: the raw XML string is passed as argument
      * @event NavalClient#raw
      * @param {string} xmlStr Raw XML from the other client.
      */
 
+    /**
+     * Emitted on all messages received: the parsed message is passed as argument
+     * @event NavalClient#message
+     * @param {Message} message The message from the other client.
+     */
+
+    /**
+     * Emitted on all messages sent to the other client
+     * @event NavalClient#sent
+     * @param {Message} message The message sent.
+     * @param {string} xmlStr The raw XML that was written.
+     */
+
     /**
      * Connected to other client, sends info about them
      * @event NavalClient#connect
@@ -125,6 +315,13 @@ export class NavalClient extends EventEmitter<{
      * @param {MoveMessage} hit The position at which the other client shot.
      */
 
+    /**
+     * Other client has shot somewhere, and the attached {@link Fleet} has answered it.
+     * @event NavalClient#moveAnswered
+     * @param {MoveMessage} hit The position at which the other client shot.
+     * @param {NotificationMessage} notification The response sent to the other client.
+     */
+
     /**
      * This client can now fire at the other client's shipyard.
      * @event NavalClient#canFire
@@ -136,35 +333,174 @@ export class NavalClient extends EventEmitter<{
      * @param {Player} player The player who won.
      */
 
+    /**
+     * This client is hosting and waiting for another client to connect.
+     * @event NavalClient#listening
+     */
+
+    /**
+     * The other client sent a message that does not follow the protocol, which is ignored, or the connection failed.
+     * 
+     * Unlike most `EventEmitter`s, errors are not thrown if nothing listens to this event: the invalid message is ignored,
+     * and connection errors are also reported by the `disconnect` event.
+     * @event NavalClient#error
+     * @param {Error} err A {@link ProtocolError}, or the connection's error.
+     */
+
+    /**
+     * The other client introduced itself.
+     * @event NavalClient#handshake
+     * @param {HeaderMessage} header The other client's header.
+     */
+
+    /**
+     * The other client refused to play with this client. The connection is closed afterwards.
+     * @event NavalClient#rejected
+     * @param {RejectMessage} reject Whether it was because of a version mismatch, and why.
+     */
+
+    /**
+     * The other client has taken longer than the `turnTimeout` option allows to fire or to answer a shot.
+     * @event NavalClient#turnTimeout
+     * @param {GameState} state {@link GameState.FIRE_SHIPS_OTHER} or {@link GameState.AWAIT_RESPONSE_OTHER}.
+     */
+
+    /**
+     * The connection to the other client is open. The handshake follows, ending with the `connect` event.
+     * @event NavalClient#connected
+     */
+
+    /**
+     * The connection to the other client was lost, and the game state is back to {@link GameState.DISCONNECTED}.
+     * @event NavalClient#disconnect
+     * @param {string} reason Why the connection was lost.
+     */
+
+    /**
+     * About to connect again after losing the connection.
+     * @event NavalClient#reconnecting
+     * @param {number} attempt The attempt number, starting from 1.
+     * @param {number} delay How long until the attempt, in milliseconds.
+     */
+
+    /**
+     * The client is fully disconnected, and will not reconnect.
+     * @event NavalClient#close
+     */
+
+    /**
+     * The other client wants to restart the game.
+     * @event NavalClient#restartRequested
+     * @param {RestartRequest} request Call `accept()` or `decline()` to answer.
+     */
+
+    /**
+     * The game restarted, and is back to {@link GameState.SHIP_SETUP}. Ships must be placed again.
+     * @event NavalClient#restart
+     */
+
+    /**
+     * The game state changed.
+     * @event NavalClient#stateChange
+     * @param {GameState} from The previous state.
+     * @param {GameState} to The new state.
+     * @param {Message | string} cause The message sent or received that caused the change, or a description such as `"disconnect"`.
+     */
+
+    /**
+     * The other client sent a message that is not allowed in the current state, such as a Move out of turn.
+     * The message was ignored and the state is unchanged.
+     * @event NavalClient#protocolViolation
+     * @param {StateError} err Which transition was refused.
+     * @param {Message} message The message that was ignored.
+     */
+
     /**
      * This client's nickname.
      */
     nickname: string;
+
+    /**
+     * How this client introduces itself to other clients.
+     */
+    identity: ClientIdentity;
+    #handshakePolicy: HandshakePolicy;
+    #shotTimeout: number | undefined;
+    #turnTimeout: number | undefined;
+    #turnTimer: NodeJS.Timeout | undefined;
+    #reconnect: Required<ReconnectOptions> | undefined;
+    #reconnectAttempt = 0;
+    #reconnectTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * Where {@link NavalClient.connect} dialled, to reconnect to.
+     */
+    #dial: { port: number, host: string } | undefined;
+
+    /**
+     * Why the connection is being closed, when this client or a Reject closed it.
+     */
+    #closeReason: string | undefined;
+
+    /**
+     * The shot waiting for an answer.
+     */
+    #shot: PendingShot | undefined;
     private _gameState: GameState = GameState.DISCONNECTED;
 
     /**
      * The options that the client is following for the game.
      */
-    gameOptions: {
-        adjacentShips: boolean,
-        allowMultipleOfSame: boolean,
-        longestShip: number,
-        boardWidth: number,
-        boardHeight: number,
-        shipDefinitions: ShipDefinition[]
-    }
-    #socket: Socket | undefined;
+    gameOptions: GameOptions
+    #transport: Transport | undefined;
+    #server: Server | undefined;
+
+    /**
+     * Whether this client is the "server client", which opens the handshake and decides the game options.
+     */
+    #host: boolean = false;
+    #beginSent: boolean = false;
+    #restartRequested: boolean = false;
+
+    /**
+     * How many of this client's ships have been answered as sunk this game.
+     */
+    #shipsLost = 0;
 
     /**
      * A list of co-ordinates that this client has shot at this game.
      */
     firedAt: [number, number][] = [];
 
+    /**
+     * The results of this client's shots at the other client's shipyard this game.
+     */
+    opponentBoard: OpponentBoard;
+
+    /**
+     * This client's own ships. When attached, the other client's shots are answered automatically.
+     * @see {@link NavalClient.attachFleet}
+     */
+    fleet?: Fleet
+
+    /**
+     * Scores against the current opponent, kept across restarts and reconnections.
+     */
+    session: Session = { games: 0, wins: 0, losses: 0 };
+
     /**
      * The current opponent.
      */
     opponent?: Player
 
+    /**
+     * Whether this client is hosting the game.
+     * @see {@link NavalClient.listen}
+     */
+    get isHost() {
+        return this.#host
+    }
+
     /**
      * The current game state.
      * @see {@link GameState}
@@ -177,43 +513,25 @@ export class NavalClient extends EventEmitter<{
         throw new Error('cannot write to gameState')
     }
 
-    constructor(nickname: string = "KNavalBattle.js") {
+    constructor(nickname: string = "KNavalBattle.js", options: NavalClientOptions = {}) {
         super();
 
         this.nickname = nickname;
-        this.gameOptions = {
-            adjacentShips: true,
-            allowMultipleOfSame: false,
-            longestShip: 4,
-            boardHeight: 10,
-            boardWidth: 10,
-            shipDefinitions: [
-                {
-                    name: "minesweeper",
-                    plural: "minesweepers",
-                    number: 1,
-                    size: 1
-                },
-                {
-                    name: "frigate",
-                    plural: "frigates",
-                    number: 1,
-                    size: 2
-                },
-                {
-                    name: "cruise",
-                    plural: "cruises",
-                    number: 1,
-                    size: 3
-                },
-                {
-                    name: "carrier",
-                    plural: "carriers",
-                    number: 1,
-                    size: 4
-                }
-            ]
-        }
+        this.identity = { ...DEFAULT_IDENTITY, ...options.identity };
+        this.#handshakePolicy = options.handshakePolicy ?? requireProtocolVersion;
+        this.#shotTimeout = options.shotTimeout;
+        this.#turnTimeout = options.turnTimeout;
+        this.#reconnect = options.reconnect ? {
+            retries: Infinity,
+            minDelay: 1000,
+            maxDelay: 30000,
+            ...(options.reconnect === true ? {} : options.reconnect)
+        } : undefined;
+
+        if (options.gameOptions) validateGameOptions(options.gameOptions)
+
+        this.gameOptions = structuredClone(options.gameOptions ?? DEFAULT_GAME_OPTIONS)
+        this.opponentBoard = new OpponentBoard(this.gameOptions)
     }
 
     /**
@@ -223,65 +541,164 @@ export class NavalClient extends EventEmitter<{
     sendChatMessage(text: string): void {
         const chatMessage = new ChatMessage(text, this.nickname);
 
-        this.#socket?.write(chatMessage.toXML())
+        this.#send(chatMessage)
     }
 
     /**
      * Send a game over message to the other client.
      * 
-     * Requires that at least one of your ships has sunk, and that you have just confirmed a hit/sink.
+     * Requires that you have just confirmed a hit/sink, and not fired since.
+     * @throws {StateError} If it is not the right time to send game over.
      */
     sendGameOver(): void {
-        if (this._gameState == GameState.FIRE_SHIPS_SELF) throw new Error('you can only send game over after sending a move response')        
-
         const gameOver = new GameOverMessage();
 
-        this.emit('gameOver', this.opponent!)
+        this.#send(gameOver, GameState.GAME_OVER);
+
+        this.#gameOver(this.opponent!)
+    }
+
+    /**
+     * Tell the other client that this client has placed its ships.
+     * 
+     * Whichever client is ready first fires first: if the other client answers with its own Begin, the `begin` event
+     * is emitted followed by `canFire`.
+     */
+    sendBegin() {
+        if (this.#beginSent) throw new Error('already sent begin')
 
-        this.#socket?.write(gameOver.toXML());
+        this.#send(new BeginMessage())
+        this.#beginSent = true
     }
 
     /**
      * Request a restart from the other client.
      * 
-     * You will not be told the result: use the {@link NavalClient} begin event's `[restartDetected]` parameter to detect restarts.
+     * If the other client accepts, the `restart` event is emitted and the game goes back to {@link GameState.SHIP_SETUP}.
+     * Clients that don't support restarts, like KNavalBattle, never answer: use the {@link NavalClient} begin event's
+     * `[restartDetected]` parameter to detect restarts from them.
+     * 
+     * The request lapses once the game moves on to another state without an answer.
      */
     requestRestart() {
         const restartMsg = new RestartMessage();
 
-        this.#socket?.write(restartMsg.toXML())
+        this.#send(restartMsg)
+        this.#restartRequested = true
+    }
+
+    /**
+     * Start a new game with the same opponent, keeping the session's scores.
+     */
+    #restart(cause: Message | string) {
+        this.#restartRequested = false
+        this.#beginSent = false
+        this.#rejectShot(new Error('game restarted before the shot was answered'))
+        this.#shipsLost = 0
+        this.firedAt = []
+        this.opponentBoard = new OpponentBoard(this.gameOptions)
+        this.fleet?.reset()
+        this.#setState(GameState.SHIP_SETUP, cause)
+
+        this.emit('restart')
+    }
+
+    /**
+     * End the game and keep score.
+     */
+    #gameOver(winner: Player) {
+        this.session.games++
+        if (winner.me) this.session.wins++
+        else this.session.losses++
+
+        this.emit('gameOver', winner)
     }
 
-    #handleMessage(xmlStr: string) {
-        const message = Message.fromXML(xmlStr);
+    /**
+     * Send a message, checking that it is allowed in the current state.
+     * @param {Message} message The message to send.
+     * @param {GameState} [to] The state sending it leads to, if it changes.
+     * @throws {StateError} If the message is not allowed.
+     */
+    #send(message: Message, to?: GameState) {
+        checkTransition('send', message.type, this._gameState, to)
+
+        const xmlStr = message.toXML();
+
+        this.#transport?.write(xmlStr)
+        this.emit('sent', message, xmlStr)
+
+        if (to !== undefined) this.#setState(to, message)
+    }
+
+    /**
+     * Move to a new state because of a message received, checking that the transition is allowed.
+     */
+    #received(message: Message, to: GameState) {
+        checkTransition('receive', message.type, this._gameState, to)
+
+        this.#setState(to, message)
+    }
+
+    #header(): HeaderMessage {
+        return new HeaderMessage(
+            this.identity.protocolVersion,
+            this.identity.clientName,
+            this.identity.clientVersion,
+            this.identity.clientDescription
+        )
+    }
+
+    #handleMessage(message: Message) {
+        try {
+            findTransition('receive', message.type, this._gameState)
+        } catch (err) {
+            if (!(err instanceof StateError)) throw err
+
+            return this.emit('protocolViolation', err, message)
+        }
 
         if (message instanceof HeaderMessage) {
-            const myHeader = new HeaderMessage(
-                '0.1.0', 'KBattleship', 4, 'The Naval Battle game'
-            )
+            this.emit('handshake', message)
+
+            const reject = this.#handshakePolicy(message, this.identity);
 
-            return this.#socket?.write(myHeader.toXML())
+            if (reject) return this.#reject(reject)
+
+            if (!this.#host) return this.#send(this.#header())
+
+            return this.#send(GameOptionsMessage.fromGameOptions(this.gameOptions))
         }
 
         if (message instanceof GameOptionsMessage) {
-            this.gameOptions = {
-                adjacentShips: message.enabledAdjacentShips,
-                allowMultipleOfSame: message.allowMultipleOfSame,
-                longestShip: message.longestShip,
-                boardHeight: message.boardHeight,
-                boardWidth: message.boardWidth,
-                shipDefinitions: message.shipDefinitions
+            // As the host, this is the other client confirming our options.
+            if (this.#host) return this.#send(new NickMessage(this.nickname))
+
+            const gameOptions = message.toGameOptions();
+
+            try {
+                validateGameOptions(gameOptions)
+            } catch (err) {
+                return this.#reject(new RejectMessage(false, `invalid game options: ${(err as Error).message}`))
             }
 
-            return this.#socket?.write(message.toXML())
+            this.gameOptions = gameOptions
+            this.opponentBoard = new OpponentBoard(this.gameOptions)
+
+            return this.#send(message)
         }
 
         if (message instanceof NickMessage) {
-            const myNick = new NickMessage(this.nickname);
+            this.#received(message, GameState.SHIP_SETUP)
 
-            this._gameState = GameState.SHIP_SETUP;
+            // As the host, we have already sent our nickname.
+            if (!this.#host) this.#send(new NickMessage(this.nickname))
 
-            this.#socket?.write(myNick.toXML())
+            this.#reconnectAttempt = 0
+
+            if (this.session.opponent !== message.nickname) {
+                this.session = { opponent: message.nickname, games: 0, wins: 0, losses: 0 }
+            }
 
             this.opponent = {
                 me: false,
@@ -291,92 +708,235 @@ export class NavalClient extends EventEmitter<{
             return this.emit('connect', this.opponent)
         }
 
+        if (message instanceof RejectMessage) {
+            this.#closeReason = `rejected by the other client: ${message.reason}`
+            this.emit('rejected', message)
+
+            return this.#transport?.end()
+        }
+
         if (message instanceof ChatMessage) {
             return this.emit('chat', message)
         }
 
         if (message instanceof BeginMessage) {
-            this.#socket?.write(message.toXML())
+            // If we were ready first, this is the other client answering our Begin, and we fire first.
+            const beganFirst = this.#beginSent
+
+            if (!beganFirst) this.#send(message)
             const detectedRestart = this._gameState !== GameState.SHIP_SETUP
 
+            this.#beginSent = false
+            this.#shipsLost = 0
             this.firedAt = []
-            this._gameState = GameState.FIRE_SHIPS_OTHER;
+            this.opponentBoard = new OpponentBoard(this.gameOptions)
+            this.fleet?.reset()
+            this.#received(message, beganFirst ? GameState.FIRE_SHIPS_SELF : GameState.FIRE_SHIPS_OTHER)
+
+            this.emit('begin', detectedRestart)
 
-            return this.emit('begin', detectedRestart)
+            if (beganFirst) this.emit('canFire')
+            return
         }
 
         if (message instanceof MoveMessage) {
             const withSocket = new MoveMessage(message.x, message.y)
 
-            this._gameState = GameState.AWAIT_RESPONSE_SELF
+            this.#received(message, GameState.AWAIT_RESPONSE_SELF)
+
+            if (this.fleet) return this.#answerMove(this.fleet, withSocket)
 
             return this.emit('move', withSocket)
         }
 
+        if (message instanceof NotificationMessage) {
+            const shot = this.#shot;
+
+            if (!shot || shot.position[0] !== message.x || shot.position[1] !== message.y) return
+
+            this.#shot = undefined
+            this.firedAt.push(shot.position)
+            this.opponentBoard.record(message)
+            this.#received(message, GameState.FIRE_SHIPS_OTHER)
+
+            return shot.settle?.resolve(message)
+        }
+
         if (message instanceof GameOverMessage) {
-            this._gameState = GameState.GAME_OVER
+            this.#received(message, GameState.GAME_OVER)
 
-            return this.emit('gameOver', {
+            return this.#gameOver({
                 me: true,
                 nickname: this.nickname
             })
         }
+
+        if (message instanceof RestartMessage) {
+            // The other client accepted our request, or asked at the same time.
+            if (this.#restartRequested) return this.#restart(message)
+
+            let answered = false;
+
+            return this.emit('restartRequested', {
+                accept: () => {
+                    if (answered) throw new Error('already answered this restart request')
+                    answered = true
+
+                    const restartMsg = new RestartMessage();
+
+                    this.#send(restartMsg)
+                    this.#restart(restartMsg)
+                },
+                decline: () => {
+                    answered = true
+                }
+            })
+        }
+    }
+
+    /**
+     * Refuse to play with the other client, and close the connection.
+     */
+    #reject(reject: RejectMessage) {
+        this.#closeReason = `rejected the other client: ${reject.reason}`
+        this.#send(reject)
+        this.#transport?.end()
+    }
+
+    #answerMove(fleet: Fleet, move: MoveMessage) {
+        const notification = fleet.respond(move);
+
+        this.emit('moveAnswered', move, notification)
+
+        if (!fleet.defeated) return this.sendMoveResponse(notification)
+
+        // Answer without emitting canFire, as the game is over.
+        this.#send(notification, GameState.FIRE_SHIPS_SELF)
+        this.sendGameOver()
+    }
+
+    /**
+     * Attach this client's own ships, so that the other client's shots are answered automatically
+     * and a game over is sent once the last ship sinks.
+     * 
+     * While a fleet is attached, the `moveAnswered` event is emitted instead of `move`.
+     * @param {Fleet} fleet A complete fleet, following this client's {@link NavalClient.gameOptions}.
+     */
+    attachFleet(fleet: Fleet) {
+        fleet.check(this.gameOptions)
+
+        this.fleet = fleet
+    }
+
+    /**
+     * Detach this client's fleet, going back to answering shots manually through the `move` event.
+     */
+    detachFleet() {
+        this.fleet = undefined
     }
 
     /**
      * Send a response to the other client's about its shot.
+     * 
+     * `canFire` is emitted afterwards, unless the response sinks the last ship: send game over instead.
      * @param {NotificationMessage} notification The result generated by {@link MoveMessage.respond}.
+     * @throws {StateError} If the other client has not shot since the last response.
      */
     sendMoveResponse(notification: NotificationMessage) {
-        if (this._gameState !== GameState.AWAIT_RESPONSE_SELF) throw new Error('cannot send response right now')
+        this.#send(notification, GameState.FIRE_SHIPS_SELF)
 
-        this.#socket?.write(notification.toXML())
+        if (notification.fieldState == "Sink") this.#shipsLost++
 
-        this._gameState = GameState.FIRE_SHIPS_SELF
-        this.emit('canFire')
+        const ships = this.gameOptions.shipDefinitions.reduce((total, definition) => total + definition.number, 0);
+
+        if (this.#shipsLost < ships) this.emit('canFire')
     }
 
     /**
      * During your turn, attempt to fire at a position on the other client's shipyard.
      * @param {[number, number]} position The position in which you want to shoot.
+     * @param {FireOptions} [options] How long to wait for an answer, and a signal to stop waiting.
      * @async
      * @returns {Promise<NotificationMessage>} A {@link NotificationMessage} that confirms whether the shot was successful or not.
+     * Rejects with a {@link TimeoutError} if the answer takes too long, or with an error if the position is off the board, if aborted or if the connection closes first.
      */
-    sendFireAt(position: [number, number]): Promise<NotificationMessage>
+    sendFireAt(position: [number, number], options?: FireOptions): Promise<NotificationMessage>
     /**
      * During your turn, attempt to fire at a position on the other client's shipyard.
      * @param {[number, number]} position The position in which you want to shoot.
      * @param {function(Error, NotificationMessage=): void} callback A function that will be called on failure/success of your shot.
      */
     sendFireAt(position: [number, number], callback: (err?: Error, notification?: NotificationMessage) => void): void
-    sendFireAt(position: [number, number], callback?: (err?: Error, notification?: NotificationMessage) => void): Promise<NotificationMessage> | void {
+    /**
+     * During your turn, attempt to fire at a position on the other client's shipyard.
+     * @param {[number, number]} position The position in which you want to shoot.
+     * @param {FireOptions} options How long to wait for an answer, and a signal to stop waiting.
+     * @param {function(Error, NotificationMessage=): void} callback A function that will be called on failure/success of your shot.
+     */
+    sendFireAt(position: [number, number], options: FireOptions, callback: (err?: Error, notification?: NotificationMessage) => void): void
+    sendFireAt(
+        position: [number, number],
+        optionsOrCallback?: FireOptions | ((err?: Error, notification?: NotificationMessage) => void),
+        callback?: (err?: Error, notification?: NotificationMessage) => void
+    ): Promise<NotificationMessage> | void {
+        if (typeof optionsOrCallback === 'function') {
+            callback = optionsOrCallback
+            optionsOrCallback = undefined
+        }
+
+        const { timeout = this.#shotTimeout, signal } = optionsOrCallback ?? {};
+
         const innerFunction = async (): Promise<NotificationMessage> => {
-            if (this._gameState !== GameState.FIRE_SHIPS_SELF) {
-                throw new Error('cannot fire at ships right now')
+            checkTransition('send', MessageType.Move, this._gameState, GameState.AWAIT_RESPONSE_OTHER)
+
+            const [x, y] = position;
+            const { boardWidth, boardHeight } = this.gameOptions;
+
+            if (!this.opponentBoard.inBounds(x, y)) {
+                throw new Error(`cannot fire at (${x}, ${y}), outside the ${boardWidth}x${boardHeight} board`)
             }
 
             if (this.firedAt.find(([x, y]) => x == position[0] && y == position[1])) {
                 throw new Error('already fired in this position')
             }
 
+            signal?.throwIfAborted()
+
             const move = new MoveMessage(position[0], position[1]);
 
             return new Promise((res, rej) => {
-                const waitForNotification = (xmlStr: string) => {
-                    const message = Message.fromXML(xmlStr);
-
-                    if (message instanceof NotificationMessage
-                        && message.x == position[0]
-                        && message.y == position[1]
-                    ) {
-                        this.firedAt.push(position)
-                        this.off('raw', waitForNotification)
-                        res(message)
+                const shot: PendingShot = { position };
+                let timer: NodeJS.Timeout | undefined;
+
+                // Stop waiting, but keep the shot so that a late answer still counts.
+                const stop = () => {
+                    clearTimeout(timer)
+                    signal?.removeEventListener('abort', onAbort)
+                    shot.settle = undefined
+                }
+                const onAbort = () => shot.settle?.reject(signal!.reason)
+
+                shot.settle = {
+                    resolve: (notification) => {
+                        stop()
+                        res(notification)
+                    },
+                    reject: (err) => {
+                        stop()
+                        rej(err)
                     }
                 }
-    
-                this.on('raw', waitForNotification)
-                this.#socket?.write(move.toXML())
+                this.#shot = shot
+
+                if (timeout !== undefined) {
+                    timer = setTimeout(() => {
+                        shot.settle?.reject(new TimeoutError(`shot at (${position[0]}, ${position[1]}) was not answered within ${timeout}ms`))
+                    }, timeout)
+                }
+
+                signal?.addEventListener('abort', onAbort, { once: true })
+
+                this.#send(move, GameState.AWAIT_RESPONSE_OTHER)
             })
         }
 
@@ -390,35 +950,219 @@ export class NavalClient extends EventEmitter<{
         }
     }
 
+    #rejectShot(err: Error) {
+        this.#shot?.settle?.reject(err)
+        this.#shot = undefined
+    }
+
+    #setState(state: GameState, cause: Message | string) {
+        const from = this._gameState;
+
+        this._gameState = state
+
+        if (from !== state) {
+            // The other client let our restart request go unanswered, so a later Restart from it is a new request.
+            this.#restartRequested = false
+            this.emit('stateChange', from, state, cause)
+        }
+
+        clearTimeout(this.#turnTimer)
+        this.#turnTimer = undefined
+
+        if (this.#turnTimeout === undefined) return
+        if (state !== GameState.FIRE_SHIPS_OTHER && state !== GameState.AWAIT_RESPONSE_OTHER) return
+
+        this.#turnTimer = setTimeout(() => this.emit('turnTimeout', state), this.#turnTimeout)
+    }
+
     /**
      * Connect to another client
      * @param {number} port The port that the other client is using
      * @param {string} host The IP address of the other client
+     * @returns {Promise<Player>} Resolves with the other client's player info once the handshake has completed.
      */
-    connect(port: number = 54321, host: string = '127.0.0.1') {
-        if (this._gameState !== GameState.DISCONNECTED) throw new Error('already connected to a server')
+    connect(port: number = 54321, host: string = '127.0.0.1'): Promise<Player> {
+        this.#checkDisconnected()
 
-        this.#socket = createConnection(
-            { host, port }
-        )
+        this.#dial = { port, host }
+        this.#reconnectAttempt = 0
+
+        return this.open(TcpTransport.connect(port, host))
+    }
+
+    /**
+     * Host a game and wait for another client to connect, as KNavalBattle does with "Host game".
+     * 
+     * The first client to connect is sent this client's {@link NavalClient.gameOptions}, and no further clients are accepted.
+     * @param {number} port The port to listen on
+     * @param {string} [host] The IP address to listen on
+     * @returns {Promise<Player>} Resolves with the other client's player info once the handshake has completed.
+     */
+    listen(port: number = 54321, host?: string): Promise<Player> {
+        this.#checkDisconnected()
+
+        const server = createServer((socket) => {
+            server.close()
+            this.#server = undefined
+
+            this.open(new TcpTransport(socket), { host: true })
+        })
+
+        server.on('error', (err) => {
+            this.#server = undefined
+            this.#emitError(err)
+            this.emit('close')
+        })
+
+        this.#dial = undefined
+        this.#server = server
+        server.listen(port, host, () => this.emit('listening'))
+
+        return this.#handshake()
+    }
+
+    /**
+     * Talk to another client through any {@link Transport}, such as a Duplex stream or an in-memory loopback.
+     * @param {Transport} transport The connection to the other client
+     * @param {object} [options]
+     * @param {boolean} [options.host] Whether this client hosts the game, opening the handshake and deciding the game options
+     * @returns {Promise<Player>} Resolves with the other client's player info once the handshake has completed.
+     */
+    open(transport: Transport, options: { host?: boolean } = {}): Promise<Player> {
+        this.#checkDisconnected()
+
+        const decoder = new MessageDecoder(() => this.gameOptions);
+        let lastError: Error | undefined;
+
+        decoder.on('message', (message, xmlStr) => {
+            // A bad message, or a listener that throws, must not stop the decoder or crash the process.
+            try {
+                this.emit('raw', xmlStr)
+                this.emit('message', message)
+                this.#handleMessage(message)
+            } catch (err) {
+                this.#emitError(err as Error)
+            }
+        })
+        decoder.on('error', (err) => this.#emitError(err))
+
+        this.#host = options.host ?? false;
+        this.#transport = transport
+        this.#closeReason = undefined
 
-        this.#socket.on('data', (data) => {
-            const str = data.toString();
-            this.emit('raw', str)
-            this.#handleMessage(str)
+        const onConnected = () => {
+            this.emit('connected')
+
+            if (this.#host) this.#send(this.#header())
+        }
+
+        if (transport.connected) process.nextTick(onConnected)
+        else transport.once('connect', onConnected)
+
+        transport.on('data', (data) => decoder.write(data))
+        transport.on('error', (err) => {
+            lastError = err
+            this.#emitError(err)
+        })
+        transport.once('close', () => {
+            if (this.#transport !== transport) return
+
+            this.#transport = undefined
+            this.#setState(GameState.DISCONNECTED, 'disconnect')
+            this.#rejectShot(new Error('connection closed before the shot was answered'))
+
+            this.emit('disconnect', this.#closeReason ?? lastError?.message ?? 'connection closed by the other client')
+
+            if (!this.#scheduleReconnect()) this.emit('close')
+        })
+
+        return this.#handshake()
+    }
+
+    #checkDisconnected() {
+        if (this._gameState !== GameState.DISCONNECTED || this.#server || this.#transport || this.#reconnectTimer) throw new Error('already connected to a server')
+    }
+
+    /**
+     * A promise for the next completed handshake, which rejects if the client closes first.
+     * 
+     * It never causes an unhandled rejection, as failures are also reported through events.
+     */
+    #handshake(): Promise<Player> {
+        const handshake = new Promise<Player>((res, rej) => {
+            const onConnect = (player: Player) => {
+                this.off('close', onClose)
+                res(player)
+            }
+            const onClose = () => {
+                this.off('connect', onConnect)
+                rej(new Error(this.#closeReason ?? 'connection closed before the handshake completed'))
+            }
+
+            this.once('connect', onConnect)
+            this.once('close', onClose)
         })
+
+        handshake.catch(() => { })
+
+        return handshake
+    }
+
+    /**
+     * Errors are only emitted when listened to, so that a malformed message cannot crash the process.
+     * Connection errors are also reported through the `disconnect` event and the promise returned when connecting.
+     */
+    #emitError(err: Error) {
+        if (this.listenerCount('error')) this.emit('error', err)
+    }
+
+    /**
+     * Try to connect again after losing the connection, if enabled.
+     * @returns Whether a reconnection was scheduled.
+     */
+    #scheduleReconnect(): boolean {
+        const dial = this.#dial;
+        const reconnect = this.#reconnect;
+
+        if (!dial || !reconnect || this.#closeReason) return false
+        if (this.#reconnectAttempt >= reconnect.retries) return false
+
+        const attempt = ++this.#reconnectAttempt;
+        const delay = Math.min(reconnect.minDelay * 2 ** (attempt - 1), reconnect.maxDelay);
+
+        this.emit('reconnecting', attempt, delay)
+
+        this.#reconnectTimer = setTimeout(() => {
+            this.#reconnectTimer = undefined
+            this.open(TcpTransport.connect(dial.port, dial.host))
+        }, delay)
+
+        return true
     }
 
     /**
      * Disconnect from the current client gracefully.
      */
     disconnect() {
-        if (this._gameState === GameState.DISCONNECTED) throw new Error('not connected to a server, cannot disconnect')
+        this.#dial = undefined
 
-        this.#socket?.end();
+        if (this.#reconnectTimer) {
+            clearTimeout(this.#reconnectTimer)
+            this.#reconnectTimer = undefined
+            this.emit('close')
+            return
+        }
 
-        this.#socket?.once('close', () => {
-            this._gameState = GameState.DISCONNECTED
-        })
+        if (this.#server) {
+            this.#server.close()
+            this.#server = undefined
+            this.emit('close')
+            return
+        }
+
+        if (!this.#transport) throw new Error('not connected to a server, cannot disconnect')
+
+        this.#closeReason = 'connection closed by this client'
+        this.#transport.end();
     }
-}
\ No newline at end of file
+}
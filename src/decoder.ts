@@ -0,0 +1,114 @@
+import EventEmitter from "node:events";
+import { StringDecoder } from "node:string_decoder";
+import { ProtocolError } from "./errors.js";
+import { Message, type BoardSize } from "./message.js";
+
+const DOCUMENT_END = '</kmessage>';
+const DOCUMENT_STARTS = ['<!DOCTYPE kmessage', '<?xml', '<kmessage'];
+
+/**
+ * How many characters may be buffered without a document ending, far more than any real message needs.
+ */
+const MAX_BUFFER_LENGTH = 1024 * 1024;
+
+/**
+ * Splits a TCP stream into whole `<kmessage>` documents.
+ *
+ * TCP does not preserve message boundaries, so a single chunk can hold part of a message, or several messages at once.
+ * Bytes are buffered until a full document has arrived, which is then parsed with {@link Message.fromXML}.
+ * @extends {EventEmitter}
+ * @example ```ts
+ * const decoder = new MessageDecoder();
+ *
+ * decoder.on('message', (message, xmlStr) => console.log(message));
+ * socket.on('data', (chunk) => decoder.write(chunk));
+ * ```
+ */
+export class MessageDecoder extends EventEmitter<{
+    // A whole document was received: the parsed message and its raw XML are passed as arguments
+    message: [Message, string]
+
+    // A whole document was received but it is not a valid message, or no document ended in time
+    error: [Error]
+}> {
+    /**
+     * A whole document was received.
+     * @event MessageDecoder#message
+     * @param {Message} message The parsed message.
+     * @param {string} xmlStr The raw XML of the document.
+     */
+
+    /**
+     * A whole document was received, but it is not a valid message, or too much data arrived without a document ending.
+     * Decoding carries on with the next document.
+     * @event MessageDecoder#error
+     * @param {ProtocolError} err Why the document was refused.
+     */
+
+    #text = new StringDecoder('utf8');
+    #buffer = '';
+
+    /**
+     * @param {function(): BoardSize | undefined} [board] Gets the size of the board that co-ordinates must fit in.
+     */
+    constructor(private board?: () => BoardSize | undefined) {
+        super();
+    }
+
+    /**
+     * Feed a chunk of the stream into the decoder. A `message` event is emitted for every document it completes.
+     * @param {Buffer | string} chunk The data received from the other client.
+     */
+    write(chunk: Buffer | string) {
+        // StringDecoder holds back multi-byte characters that are split across chunks.
+        this.#buffer += typeof chunk === 'string' ? chunk : this.#text.write(chunk);
+
+        let end: number;
+
+        while ((end = this.#buffer.indexOf(DOCUMENT_END)) !== -1) {
+            const stop = end + DOCUMENT_END.length;
+            const xmlStr = this.#buffer.slice(this.#documentStart(end), stop);
+
+            this.#buffer = this.#buffer.slice(stop);
+
+            let message: Message;
+
+            try {
+                message = Message.fromXML(xmlStr, this.board?.());
+            } catch (err) {
+                this.emit('error', err as Error);
+                continue;
+            }
+
+            this.emit('message', message, xmlStr);
+        }
+
+        if (this.#buffer.length > MAX_BUFFER_LENGTH) {
+            const raw = this.#buffer;
+
+            // Drop what was buffered, so that a client that never ends a document cannot exhaust memory.
+            this.reset();
+            this.emit('error', new ProtocolError(`no document ended within ${MAX_BUFFER_LENGTH} characters`, raw));
+        }
+    }
+
+    /**
+     * Discard any partially received document, e.g. after the connection was closed.
+     */
+    reset() {
+        this.#text.end();
+        this.#text = new StringDecoder('utf8');
+        this.#buffer = '';
+    }
+
+    /**
+     * Find where the document ending at `end` begins, skipping any whitespace or stray data before its prolog.
+     */
+    #documentStart(end: number): number {
+        const starts = DOCUMENT_STARTS
+            .map(start => this.#buffer.indexOf(start))
+            .filter(index => index !== -1 && index < end);
+
+        return starts.length ? Math.min(...starts) : 0;
+    }
+}
@@ -0,0 +1,59 @@
+import type { MessageType } from "./message.js";
+import type { Direction, GameState } from "./state.js";
+
+/**
+ * Thrown when the other client sends a message that does not follow the KBattleship protocol.
+ */
+export class ProtocolError extends Error {
+    override name = 'ProtocolError';
+
+    /**
+     * @param {string} message A description of the problem.
+     * @param {string} raw The raw XML that was received.
+     * @param {string} [field] The field of the message that failed validation, if any.
+     */
+    constructor(message: string, public raw: string, public field?: string) {
+        super(message)
+    }
+}
+
+/**
+ * Thrown when the other client takes too long to answer.
+ */
+export class TimeoutError extends Error {
+    override name = 'TimeoutError';
+}
+
+/**
+ * Thrown when a message is sent or received in a {@link GameState} that does not allow it.
+ */
+export class StateError extends Error {
+    override name = 'StateError';
+
+    /**
+     * @param {string} message A description of the problem.
+     * @param {Direction} direction Whether the message was being sent or received.
+     * @param {MessageType} messageType The type of the message.
+     * @param {GameState} from The state the game was in.
+     * @param {GameState} [to] The state the message would have led to, if that was the problem.
+     */
+    constructor(message: string, public direction: Direction, public messageType: MessageType, public from: GameState, public to?: GameState) {
+        super(message)
+    }
+}
+
+/**
+ * Thrown when a fleet layout cannot be read, or does not follow a game's options.
+ */
+export class LayoutError extends Error {
+    override name = 'LayoutError';
+
+    /**
+     * @param {string} message A description of the problem.
+     * @param {number} [line] The line of the layout the problem is on, from 1.
+     * @param {number} [column] The column of the layout the problem is on, from 1.
+     */
+    constructor(message: string, public line?: number, public column?: number) {
+        super(line === undefined ? message : `line ${line}, column ${column ?? 1}: ${message}`)
+    }
+}
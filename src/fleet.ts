@@ -0,0 +1,270 @@
+import type { GameOptions } from "./client.js";
+import type { MoveMessage, NotificationMessage, ShipDefinition } from "./message.js";
+
+/**
+ * The direction a ship extends in from its starting co-ordinate.
+ */
+export type Orientation = "horizontal" | "vertical";
+
+/**
+ * The result of a shot against a {@link Fleet}.
+ */
+export type ShotResult = {
+    /**
+     * Whether the shot missed, hit a ship or sank it.
+     */
+    result: "hit" | "miss" | "sink",
+
+    /**
+     * The ship that was shot, if any.
+     */
+    ship?: Ship
+}
+
+/**
+ * A ship placed on this client's shipyard.
+ */
+export class Ship {
+    #hits = new Set<number>();
+
+    constructor(
+        public definition: ShipDefinition,
+        public x: number,
+        public y: number,
+        public orientation: Orientation = "horizontal"
+    ) { }
+
+    /**
+     * Every co-ordinate this ship covers, from its start to its end.
+     */
+    get cells(): [number, number][] {
+        return Array.from({ length: this.definition.size }, (_, i) =>
+            this.orientation == "horizontal" ? [this.x + i, this.y] : [this.x, this.y + i]
+        )
+    }
+
+    /**
+     * The start and end co-ordinates of this ship, as used by {@link MoveMessage.respond} when it sinks.
+     */
+    get coordinates(): [[number, number], [number, number]] {
+        const cells = this.cells;
+
+        return [cells[0]!, cells[cells.length - 1]!]
+    }
+
+    /**
+     * Whether every part of this ship has been hit.
+     */
+    get sunk(): boolean {
+        return this.#hits.size == this.definition.size
+    }
+
+    /**
+     * Check whether this ship covers a co-ordinate.
+     */
+    occupies(x: number, y: number): boolean {
+        return this.#index(x, y) !== -1
+    }
+
+    /**
+     * Check whether this ship covers or touches a co-ordinate, including diagonally.
+     */
+    touches(x: number, y: number): boolean {
+        return this.cells.some(([cx, cy]) => Math.abs(cx - x) <= 1 && Math.abs(cy - y) <= 1)
+    }
+
+    /**
+     * Mark part of this ship as hit.
+     * @returns Whether the co-ordinate was part of this ship.
+     */
+    hit(x: number, y: number): boolean {
+        const index = this.#index(x, y);
+
+        if (index === -1) return false
+
+        this.#hits.add(index)
+        return true
+    }
+
+    /**
+     * Repair this ship, e.g. for a new game.
+     */
+    reset() {
+        this.#hits.clear()
+    }
+
+    #index(x: number, y: number): number {
+        const [along, across] = this.orientation == "horizontal" ? [x - this.x, y - this.y] : [y - this.y, x - this.x];
+
+        return across == 0 && along >= 0 && along < this.definition.size ? along : -1
+    }
+}
+
+/**
+ * This client's own ships, checked against a game's options.
+ *
+ * Attach a complete fleet with {@link NavalClient.attachFleet} to have incoming shots answered automatically.
+ * @example ```ts
+ * const fleet = new Fleet(client.gameOptions);
+ *
+ * fleet.place("carrier", 0, 0, "vertical");
+ * fleet.place("cruise", 2, 0);
+ * fleet.place("frigate", 6, 5);
+ * fleet.place("minesweeper", 9, 9);
+ *
+ * client.attachFleet(fleet);
+ * ```
+ */
+export class Fleet {
+    /**
+     * The ships placed so far.
+     */
+    ships: Ship[] = [];
+
+    constructor(public gameOptions: GameOptions) { }
+
+    /**
+     * Place a ship on the shipyard.
+     * @param {string} name The name of the ship's {@link ShipDefinition}.
+     * @param {number} x The column of the ship's first co-ordinate.
+     * @param {number} y The row of the ship's first co-ordinate.
+     * @param {Orientation} [orientation] The direction the ship extends in.
+     * @returns The placed ship.
+     */
+    place(name: string, x: number, y: number, orientation: Orientation = "horizontal"): Ship {
+        const definition = this.gameOptions.shipDefinitions.find(definition => definition.name == name);
+
+        if (!definition) throw new Error(`unknown ship "${name}"`)
+
+        const ship = new Ship(definition, x, y, orientation);
+
+        this.#checkShip(ship, this.ships)
+        this.ships.push(ship)
+
+        return ship
+    }
+
+    /**
+     * Remove a ship from the shipyard.
+     * @param {Ship} ship The ship to remove.
+     */
+    remove(ship: Ship) {
+        this.ships = this.ships.filter(placed => placed !== ship)
+    }
+
+    /**
+     * Find the ship covering a co-ordinate.
+     */
+    shipAt(x: number, y: number): Ship | undefined {
+        return this.ships.find(ship => ship.occupies(x, y))
+    }
+
+    /**
+     * Whether every ship required by the game's options has been placed.
+     */
+    get complete(): boolean {
+        return this.gameOptions.shipDefinitions.every(definition =>
+            this.ships.filter(ship => ship.definition.name == definition.name).length == definition.number
+        )
+    }
+
+    /**
+     * Whether every ship in this fleet has sunk.
+     */
+    get defeated(): boolean {
+        return this.ships.length > 0 && this.ships.every(ship => ship.sunk)
+    }
+
+    /**
+     * Check that this fleet is complete and legal under a game's options.
+     * @param {GameOptions} [gameOptions] The options to check against, defaulting to the ones this fleet was created with.
+     * @throws If a ship does not start at integer co-ordinates, is out of bounds, overlaps or touches another ship when not allowed, or if ships are missing.
+     */
+    check(gameOptions: GameOptions = this.gameOptions) {
+        const checked: Ship[] = [];
+
+        for (const ship of this.ships) {
+            const definition = gameOptions.shipDefinitions.find(definition => definition.name == ship.definition.name);
+
+            if (!definition || definition.size !== ship.definition.size) throw new Error(`ship "${ship.definition.name}" is not part of this game`)
+
+            this.#checkShip(ship, checked, gameOptions)
+            checked.push(ship)
+        }
+
+        for (const definition of gameOptions.shipDefinitions) {
+            const placed = this.ships.filter(ship => ship.definition.name == definition.name).length;
+
+            if (placed !== definition.number) throw new Error(`expected ${definition.number} ${definition.number == 1 ? definition.name : definition.plural}, found ${placed}`)
+        }
+    }
+
+    /**
+     * Resolve a shot against this fleet.
+     * @param {number} x The column that was shot.
+     * @param {number} y The row that was shot.
+     * @returns Whether the shot missed, hit or sank a ship.
+     */
+    receiveShot(x: number, y: number): ShotResult {
+        const ship = this.shipAt(x, y);
+
+        if (!ship) return { result: "miss" }
+
+        const wasSunk = ship.sunk;
+        ship.hit(x, y)
+
+        return {
+            result: ship.sunk && !wasSunk ? "sink" : "hit",
+            ship
+        }
+    }
+
+    /**
+     * Resolve the other client's shot and build the response to send back.
+     * @param {MoveMessage} move The other client's shot.
+     * @returns A `NotificationMessage` that can be used with `NavalClient#sendMoveResponse`.
+     */
+    respond(move: MoveMessage): NotificationMessage {
+        const { result, ship } = this.receiveShot(move.x, move.y);
+
+        if (result == "sink") return move.respond("sink", ship!.coordinates)
+
+        return move.respond(result)
+    }
+
+    /**
+     * Repair every ship, e.g. for a new game with the same layout.
+     */
+    reset() {
+        for (const ship of this.ships) ship.reset()
+    }
+
+    #checkShip(ship: Ship, others: Ship[], gameOptions: GameOptions = this.gameOptions) {
+        const name = ship.definition.name;
+
+        if (!Number.isInteger(ship.x) || !Number.isInteger(ship.y)) {
+            throw new Error(`ship "${name}" must start at integer co-ordinates, not (${ship.x}, ${ship.y})`)
+        }
+
+        for (const [x, y] of ship.cells) {
+            if (x < 0 || y < 0 || x >= gameOptions.boardWidth || y >= gameOptions.boardHeight) {
+                throw new Error(`ship "${name}" does not fit on the board at (${x}, ${y})`)
+            }
+
+            if (others.some(other => other.occupies(x, y))) {
+                throw new Error(`ship "${name}" overlaps another ship at (${x}, ${y})`)
+            }
+
+            if (!gameOptions.adjacentShips && others.some(other => other.touches(x, y))) {
+                throw new Error(`ship "${name}" touches another ship at (${x}, ${y})`)
+            }
+        }
+
+        const allowed = gameOptions.shipDefinitions.find(definition => definition.name == name)?.number ?? 0;
+        const sameKind = others.filter(other => other.definition.name == name).length;
+
+        if (sameKind >= allowed) {
+            throw new Error(`only ${allowed} ${allowed == 1 ? name : ship.definition.plural} allowed`)
+        }
+    }
+}
@@ -1,2 +1,20 @@
+export * from "./bot.js";
 export * from "./client.js";
-export * from "./message.js";
\ No newline at end of file
+export * from "./decoder.js";
+export * from "./errors.js";
+export * from "./fleet.js";
+export * from "./layout.js";
+export * from "./lobby.js";
+export * from "./message.js";
+export * from "./opponent.js";
+export * from "./options.js";
+export * from "./placement.js";
+export * from "./proxy.js";
+export * from "./recorder.js";
+export * from "./referee.js";
+export * from "./replayer.js";
+export * from "./simulator.js";
+export * from "./state.js";
+export * from "./targeting.js";
+export * from "./tournament.js";
+export * from "./transport.js";
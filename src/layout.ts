@@ -0,0 +1,315 @@
+import type { GameOptions } from "./client.js";
+import { LayoutError } from "./errors.js";
+import { Fleet, type Orientation } from "./fleet.js";
+import { GameOptionsMessage, type ShipDefinition } from "./message.js";
+
+/**
+ * Where one ship of a layout goes, as written in the JSON layout format.
+ */
+export type LayoutShip = {
+    /**
+     * The name of the ship's {@link ShipDefinition}.
+     */
+    ship: string,
+    x: number,
+    y: number,
+    orientation: Orientation
+}
+
+/**
+ * A ship's start and end co-ordinates, as {@link MoveMessage.respond} expects them when it sinks.
+ */
+export type SinkCoordinates = [[number, number], [number, number]];
+
+/**
+ * The letters a grid layout can use for ships, in the order they are handed out.
+ */
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Read a fleet layout, in either the grid or the JSON format, and check it against a game's options.
+ *
+ * The grid format has one line per row of the board: `.` is water, and each ship is drawn with a letter of its own.
+ * Ships are told apart by their size, and spaces between cells, blank lines and lines starting with `#` are ignored.
+ * The JSON format is an array of {@link LayoutShip}s.
+ * @param {string} text The layout.
+ * @param {GameOptions | GameOptionsMessage} gameOptions The options the layout must follow.
+ * @returns A complete fleet, ready for {@link NavalClient.attachFleet}.
+ * @throws {LayoutError} If the layout cannot be read, or breaks the game's options. The error's line and column point at the problem when they can.
+ * @example ```ts
+ * const fleet = parseLayout(`
+ *     # My favourite layout
+ *     A . . . . . . . . .
+ *     A . C C C . . . . .
+ *     A . . . . . . . . .
+ *     A . . . . . . . . .
+ *     . . . . . . . . . .
+ *     . . . . . . F . . .
+ *     . . . . . . F . . .
+ *     . . . . . . . . . .
+ *     . . . . . . . . . .
+ *     . . . . . . . . . M
+ * `, client.gameOptions);
+ * ```
+ */
+export function parseLayout(text: string, gameOptions: GameOptions | GameOptionsMessage): Fleet {
+    return /^\s*\[/.test(text) ? parseJSONLayout(text, gameOptions) : parseGridLayout(text, gameOptions)
+}
+
+/**
+ * Read a fleet layout in the grid format described by {@link parseLayout}.
+ * @throws {LayoutError} If the layout cannot be read, or breaks the game's options.
+ */
+export function parseGridLayout(text: string, gameOptions: GameOptions | GameOptionsMessage): Fleet {
+    const options = toGameOptions(gameOptions);
+    const { boardWidth, boardHeight } = options;
+
+    // Every cell of every letter, with where it was written.
+    const letters = new Map<string, { x: number, y: number, line: number, column: number }[]>();
+    let y = 0;
+
+    text.split("\n").forEach((raw, index) => {
+        const line = raw.replace(/\r$/, "");
+
+        if (!line.trim() || line.trim().startsWith("#")) return
+
+        if (y >= boardHeight) throw new LayoutError(`the board only has ${boardHeight} rows`, index + 1)
+
+        let x = 0;
+
+        for (let column = 0; column < line.length; column++) {
+            const char = line[column]!;
+
+            if (/\s/.test(char)) continue
+
+            if (x >= boardWidth) throw new LayoutError(`the board only has ${boardWidth} columns`, index + 1, column + 1)
+
+            if (char !== ".") {
+                if (!LETTERS.includes(char)) throw new LayoutError(`"${char}" is neither water (".") nor a letter`, index + 1, column + 1)
+
+                letters.set(char, [...letters.get(char) ?? [], { x, y, line: index + 1, column: column + 1 }])
+            }
+
+            x++
+        }
+
+        if (x < boardWidth) throw new LayoutError(`row has ${x} cells, but the board has ${boardWidth} columns`, index + 1, line.length + 1)
+
+        y++
+    })
+
+    if (y < boardHeight) throw new LayoutError(`layout has ${y} rows, but the board has ${boardHeight}`)
+
+    const fleet = new Fleet(options);
+
+    for (const [letter, cells] of letters) {
+        const [first] = cells;
+        const last = cells[cells.length - 1]!;
+        const orientation: Orientation = cells.length > 1 && first!.x == last.x ? "vertical" : "horizontal";
+
+        // The cells are in reading order, so a straight ship's cells follow each other.
+        const broken = cells.find((cell, i) => orientation == "horizontal"
+            ? cell.y !== first!.y || cell.x !== first!.x + i
+            : cell.x !== first!.x || cell.y !== first!.y + i
+        );
+
+        if (broken) throw new LayoutError(`ship "${letter}" is not a straight line`, broken.line, broken.column)
+
+        const definition = pickDefinition(letter, cells.length, fleet, options);
+
+        if (!definition) throw new LayoutError(`ship "${letter}" has a size of ${cells.length}, which matches no ship left to place`, first!.line, first!.column)
+
+        try {
+            fleet.place(definition.name, first!.x, first!.y, orientation)
+        } catch (err) {
+            throw new LayoutError((err as Error).message, first!.line, first!.column)
+        }
+    }
+
+    checkComplete(fleet)
+
+    return fleet
+}
+
+/**
+ * Read a fleet layout in the JSON format: an array of {@link LayoutShip}s.
+ * @throws {LayoutError} If the layout cannot be read, or breaks the game's options.
+ */
+export function parseJSONLayout(text: string, gameOptions: GameOptions | GameOptionsMessage): Fleet {
+    let ships: unknown;
+
+    try {
+        ships = JSON.parse(text)
+    } catch (err) {
+        // Depending on the Node.js version, the error gives an offset or a line and column.
+        const position = /position (\d+)/.exec((err as Error).message);
+        const lineColumn = /line (\d+) column (\d+)/.exec((err as Error).message);
+        const where = lineColumn ? [Number(lineColumn[1]), Number(lineColumn[2])] : position ? locate(text, Number(position[1])) : [];
+
+        throw new LayoutError('layout is not valid JSON', ...where)
+    }
+
+    if (!Array.isArray(ships)) throw new LayoutError('layout must be an array of ships')
+
+    const offsets = entryOffsets(text);
+    const fleet = new Fleet(toGameOptions(gameOptions));
+
+    ships.forEach((ship: Partial<LayoutShip>, i) => {
+        const where = offsets[i] === undefined ? [] : locate(text, offsets[i]!);
+
+        if (typeof ship?.ship !== "string") throw new LayoutError(`ship ${i + 1} has no "ship" name`, ...where)
+        if (!Number.isInteger(ship.x) || !Number.isInteger(ship.y)) throw new LayoutError(`ship "${ship.ship}" needs integer "x" and "y" co-ordinates`, ...where)
+        if (ship.orientation !== "horizontal" && ship.orientation !== "vertical") throw new LayoutError(`ship "${ship.ship}" must be "horizontal" or "vertical"`, ...where)
+
+        try {
+            fleet.place(ship.ship, ship.x!, ship.y!, ship.orientation)
+        } catch (err) {
+            throw new LayoutError((err as Error).message, ...where)
+        }
+    })
+
+    checkComplete(fleet)
+
+    return fleet
+}
+
+/**
+ * Write a fleet in the grid layout format, giving each ship its own letter.
+ * @param {Fleet} fleet The fleet to write, e.g. {@link NavalClient.fleet}.
+ */
+export function formatGridLayout(fleet: Fleet): string {
+    const { boardWidth, boardHeight } = fleet.gameOptions;
+    const rows = Array.from({ length: boardHeight }, () => Array<string>(boardWidth).fill("."));
+    const used = new Set<string>();
+
+    for (const ship of fleet.ships) {
+        // Prefer the ship's initial, so that layouts are easy to read.
+        const initial = ship.definition.name[0]?.toUpperCase() ?? "";
+        const letter = initial && LETTERS.includes(initial) && !used.has(initial) ? initial : [...LETTERS].find(letter => !used.has(letter));
+
+        if (!letter) throw new Error(`a grid layout cannot hold more than ${LETTERS.length} ships`)
+
+        used.add(letter)
+
+        for (const [x, y] of ship.cells) rows[y]![x] = letter
+    }
+
+    return rows.map(row => row.join(" ")).join("\n") + "\n"
+}
+
+/**
+ * Write a fleet in the JSON layout format, one ship per line.
+ * @param {Fleet} fleet The fleet to write, e.g. {@link NavalClient.fleet}.
+ */
+export function formatJSONLayout(fleet: Fleet): string {
+    const ships = toLayout(fleet).map(ship => `    ${JSON.stringify(ship)}`);
+
+    return `[\n${ships.join(",\n")}\n]\n`
+}
+
+/**
+ * List where every ship of a fleet goes.
+ * @param {Fleet} fleet The fleet to describe.
+ */
+export function toLayout(fleet: Fleet): LayoutShip[] {
+    return fleet.ships.map(ship => ({
+        ship: ship.definition.name,
+        x: ship.x,
+        y: ship.y,
+        orientation: ship.orientation
+    }))
+}
+
+/**
+ * Work out where each ship of a layout starts and ends, to answer the shot that sinks it.
+ * @param {LayoutShip[]} layout The ships.
+ * @param {GameOptions | GameOptionsMessage} gameOptions The options giving each ship its size.
+ * @returns Co-ordinates for every ship, in the same order as the layout.
+ * @example ```ts
+ * const coordinates = sinkCoordinates(layout, client.gameOptions);
+ *
+ * client.sendMoveResponse(move.respond("sink", coordinates[0]));
+ * ```
+ */
+export function sinkCoordinates(layout: LayoutShip[], gameOptions: GameOptions | GameOptionsMessage): SinkCoordinates[] {
+    const { shipDefinitions } = toGameOptions(gameOptions);
+
+    return layout.map(({ ship, x, y, orientation }) => {
+        const definition = shipDefinitions.find(definition => definition.name == ship);
+
+        if (!definition) throw new Error(`unknown ship "${ship}"`)
+
+        const end = definition.size - 1;
+
+        return [[x, y], orientation == "horizontal" ? [x + end, y] : [x, y + end]]
+    })
+}
+
+function toGameOptions(gameOptions: GameOptions | GameOptionsMessage): GameOptions {
+    return gameOptions instanceof GameOptionsMessage ? gameOptions.toGameOptions() : gameOptions
+}
+
+/**
+ * Find the kind of ship a grid letter stands for, from its size. When several kinds share a size,
+ * the one whose name starts with the letter is preferred.
+ */
+function pickDefinition(letter: string, size: number, fleet: Fleet, gameOptions: GameOptions): ShipDefinition | undefined {
+    const left = gameOptions.shipDefinitions.filter(definition =>
+        definition.size == size
+        && fleet.ships.filter(ship => ship.definition.name == definition.name).length < definition.number
+    );
+
+    return left.find(definition => definition.name[0]?.toLowerCase() == letter.toLowerCase()) ?? left[0]
+}
+
+function checkComplete(fleet: Fleet) {
+    try {
+        fleet.check()
+    } catch (err) {
+        throw new LayoutError((err as Error).message)
+    }
+}
+
+/**
+ * Turn an offset into the text into a line and column, both from 1.
+ */
+function locate(text: string, offset: number): [number, number] {
+    const before = text.slice(0, offset).split("\n");
+
+    return [before.length, before[before.length - 1]!.length + 1]
+}
+
+/**
+ * Find where each entry of a JSON array starts, skipping over strings.
+ */
+function entryOffsets(text: string): number[] {
+    const offsets: number[] = [];
+    let depth = 0;
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]!;
+
+        if (inString) {
+            if (char == "\\") i++
+            else if (char == '"') inString = false
+            continue
+        }
+
+        if (depth == 1 && !/[\s,\]]/.test(char)) {
+            offsets.push(i)
+
+            // Skip to the end of a scalar entry, as objects and strings are handled below.
+            if (char !== "{" && char !== "[" && char !== '"') {
+                while (i + 1 < text.length && !/[\s,\]]/.test(text[i + 1]!)) i++
+                continue
+            }
+        }
+
+        if (char == '"') inString = true
+        else if (char == "[" || char == "{") depth++
+        else if (char == "]" || char == "}") depth--
+    }
+
+    return offsets
+}
@@ -0,0 +1,573 @@
+import EventEmitter from "node:events";
+import { createServer as createHttpServer, type Server as HttpServer } from "node:http";
+import { createServer, type Server } from "node:net";
+import {
+    DEFAULT_GAME_OPTIONS,
+    DEFAULT_IDENTITY,
+    requireProtocolVersion,
+    type ClientIdentity,
+    type GameOptions,
+    type HandshakePolicy,
+    type NavalClient
+} from "./client.js";
+import { MessageDecoder } from "./decoder.js";
+import {
+    ChatMessage,
+    GameOptionsMessage,
+    GameOverMessage,
+    HeaderMessage,
+    NickMessage,
+    type Message
+} from "./message.js";
+import { validateGameOptions } from "./options.js";
+import { createLoopbackPair, TcpTransport, type Transport } from "./transport.js";
+
+/**
+ * Options for a {@link NavalLobby}.
+ */
+export type NavalLobbyOptions = {
+    /**
+     * The options every game in the lobby is played with.
+     */
+    gameOptions?: GameOptions,
+
+    /**
+     * The nickname players see until they are matched. Defaults to `"Lobby"`.
+     */
+    nickname?: string,
+
+    /**
+     * How the lobby introduces itself during the handshake. Defaults to {@link DEFAULT_IDENTITY}.
+     */
+    identity?: Partial<ClientIdentity>,
+
+    /**
+     * Decides whether to let a client in. Defaults to {@link requireProtocolVersion}.
+     */
+    handshakePolicy?: HandshakePolicy,
+
+    /**
+     * How long, in milliseconds, a player waits for another player before being matched with a bot. Defaults to 10 seconds.
+     */
+    botDelay?: number
+}
+
+/**
+ * A client that has completed the handshake with the lobby.
+ */
+export type LobbyPlayer = {
+    /**
+     * A number unique to this player within the lobby.
+     */
+    id: number,
+    nickname: string,
+
+    /**
+     * Whether this player is one of the lobby's registered bots.
+     */
+    bot: boolean,
+
+    /**
+     * The header the client introduced itself with.
+     */
+    header: HeaderMessage
+}
+
+/**
+ * The result of one game in the lobby.
+ */
+export type LobbyResult = {
+    /**
+     * The id of the match the game was played in.
+     */
+    match: number,
+    winner: string,
+    loser: string,
+
+    /**
+     * When the game ended, as an ISO 8601 date.
+     */
+    finishedAt: string
+}
+
+/**
+ * Two players that were paired, and the games they have played so far.
+ */
+export type LobbyMatch = {
+    /**
+     * A number unique to this match within the lobby.
+     */
+    id: number,
+    players: [LobbyPlayer, LobbyPlayer],
+
+    /**
+     * When the match started, as an ISO 8601 date.
+     */
+    startedAt: string,
+    results: LobbyResult[]
+}
+
+/**
+ * A snapshot of the lobby, as served by {@link NavalLobby.listenAdmin}.
+ */
+export type LobbyStatus = {
+    /**
+     * Players waiting to be matched, longest waiting first.
+     */
+    waiting: LobbyPlayer[],
+    matches: LobbyMatch[],
+
+    /**
+     * Every game finished in the lobby, oldest first.
+     */
+    results: LobbyResult[]
+}
+
+/**
+ * One connection to the lobby.
+ */
+type Seat = {
+    transport: Transport,
+    decoder: MessageDecoder,
+    header?: HeaderMessage,
+    player?: LobbyPlayer,
+    partner?: Seat,
+    match?: LobbyMatch,
+    waitingSince?: number,
+
+    /**
+     * Messages sent after the handshake but before being matched, like an early Begin, to relay once matched.
+     */
+    early: [Message, string][],
+
+    /**
+     * For a bot's seat, the waiting player the bot was made for.
+     */
+    botFor?: Seat
+}
+
+/**
+ * Pairs KNavalBattle clients that connect to one port, then relays messages between each pair.
+ *
+ * The lobby acts as the host of every connection: it completes the handshake with each client using its own nickname and game options,
+ * and queues the client. Two waiting clients are matched with each other, and a client left waiting for too long is matched with a
+ * registered bot instead. From then on, everything either client sends is forwarded to the other, so they play as if connected directly,
+ * although their opponent's nickname stays the lobby's: a chat message tells them who they were matched with.
+ * When either client leaves, the other is disconnected too.
+ * @extends {EventEmitter}
+ * @example ```ts
+ * const lobby = new NavalLobby();
+ *
+ * lobby.addBot(() => {
+ *     const client = new NavalClient("HuntBot");
+ *
+ *     new NavalBot(client, { placement, targeting: new HuntTargetStrategy(), acceptRestarts: true }).start();
+ *     return client;
+ * });
+ *
+ * lobby.on("gameOver", (result) => console.log(`${result.winner} beat ${result.loser}`));
+ * await lobby.listen(54321);
+ * ```
+ */
+export class NavalLobby extends EventEmitter<{
+    // A client completed the handshake and is waiting for an opponent
+    queued: [LobbyPlayer]
+
+    // Two players were paired
+    match: [LobbyMatch]
+
+    // A game finished
+    gameOver: [LobbyResult, LobbyMatch]
+
+    // A player left, ending their match
+    matchEnd: [LobbyMatch]
+
+    // A client left, or was refused, before being matched: its player info is passed if it completed the handshake
+    leave: [LobbyPlayer | undefined]
+
+    // A connection or the server failed
+    error: [Error]
+}> {
+    /**
+     * A client completed the handshake and is waiting for an opponent.
+     * @event NavalLobby#queued
+     * @param {LobbyPlayer} player The client's player info.
+     */
+
+    /**
+     * Two players were paired. Messages are relayed between them from now on.
+     * @event NavalLobby#match
+     * @param {LobbyMatch} match The new match.
+     */
+
+    /**
+     * A game finished.
+     * @event NavalLobby#gameOver
+     * @param {LobbyResult} result Who won.
+     * @param {LobbyMatch} match The match the game was played in.
+     */
+
+    /**
+     * A player left, ending their match.
+     * @event NavalLobby#matchEnd
+     * @param {LobbyMatch} match The match that ended.
+     */
+
+    /**
+     * A client left, or was refused, before being matched.
+     * @event NavalLobby#leave
+     * @param {LobbyPlayer} [player] The client's player info, if it completed the handshake.
+     */
+
+    /**
+     * A connection or the server failed.
+     * @event NavalLobby#error
+     * @param {Error} err The error that occurred.
+     */
+
+    gameOptions: GameOptions;
+    nickname: string;
+    identity: ClientIdentity;
+
+    /**
+     * Matches still being played.
+     */
+    matches: LobbyMatch[] = [];
+
+    /**
+     * Every game finished in the lobby, oldest first.
+     */
+    results: LobbyResult[] = [];
+
+    #handshakePolicy: HandshakePolicy;
+    #botDelay: number;
+    #bots: (() => NavalClient)[] = [];
+    #nextBot = 0;
+    #waiting: Seat[] = [];
+    #seats = new Set<Seat>();
+    #botTimer: NodeJS.Timeout | undefined;
+    #server: Server | undefined;
+    #ids = 0;
+    #matchIds = 0;
+
+    constructor(options: NavalLobbyOptions = {}) {
+        super();
+
+        if (options.gameOptions) validateGameOptions(options.gameOptions)
+
+        this.gameOptions = options.gameOptions ?? structuredClone(DEFAULT_GAME_OPTIONS)
+        this.nickname = options.nickname ?? "Lobby"
+        this.identity = { ...DEFAULT_IDENTITY, ...options.identity }
+        this.#handshakePolicy = options.handshakePolicy ?? requireProtocolVersion
+        this.#botDelay = options.botDelay ?? 10000
+    }
+
+    /**
+     * Players waiting to be matched, longest waiting first.
+     */
+    get waiting(): LobbyPlayer[] {
+        return this.#waiting.map(seat => seat.player!)
+    }
+
+    /**
+     * Register a bot that waiting players can be matched with. Bots take turns, and a new client is made for every match.
+     * @param {function(): NavalClient} factory Creates a disconnected client, ready to play, e.g. driven by a {@link NavalBot}.
+     */
+    addBot(factory: () => NavalClient) {
+        this.#bots.push(factory)
+        this.#scheduleBots()
+    }
+
+    /**
+     * Start accepting KNavalBattle clients, which join with "Connect to game".
+     * @param {number} port The port to listen on
+     * @param {string} [host] The IP address to listen on
+     * @returns {Promise<void>} Resolves once the lobby is listening, or rejects if it cannot listen, e.g. because the port is in use.
+     */
+    listen(port: number = 54321, host?: string): Promise<void> {
+        if (this.#server) throw new Error('lobby is already listening')
+
+        const server = createServer((socket) => this.accept(new TcpTransport(socket)));
+
+        server.on('error', (err) => this.#emitError(err))
+        this.#server = server
+
+        return new Promise((resolve, reject) => {
+            const onError = (err: Error) => {
+                this.#server = undefined
+                reject(err)
+            };
+
+            server.once('error', onError)
+            server.listen(port, host, () => {
+                server.off('error', onError)
+                resolve()
+            })
+        })
+    }
+
+    /**
+     * Serve {@link NavalLobby.status} as JSON over HTTP, for dashboards and admins.
+     * @param {number} port The port to listen on
+     * @param {string} [host] The IP address to listen on
+     * @returns The HTTP server, which is not closed by {@link NavalLobby.close}.
+     */
+    listenAdmin(port: number, host?: string): HttpServer {
+        const server = createHttpServer((request, response) => {
+            if (request.method !== 'GET' || new URL(request.url ?? '/', 'http://localhost').pathname !== '/status') {
+                response.writeHead(404).end()
+                return
+            }
+
+            response.writeHead(200, { 'content-type': 'application/json' })
+            response.end(JSON.stringify(this.status()))
+        });
+
+        server.on('error', (err) => this.#emitError(err))
+
+        return server.listen(port, host)
+    }
+
+    /**
+     * A snapshot of who is waiting, the matches being played and every result so far.
+     */
+    status(): LobbyStatus {
+        return {
+            waiting: this.waiting,
+            matches: [...this.matches],
+            results: [...this.results]
+        }
+    }
+
+    /**
+     * Welcome a client through any {@link Transport}, such as an in-memory loopback. TCP clients are accepted by {@link NavalLobby.listen}.
+     * @param {Transport} transport The connection to the client, which the lobby hosts.
+     */
+    accept(transport: Transport) {
+        this.#seat(transport)
+    }
+
+    /**
+     * Stop accepting clients and disconnect everyone.
+     */
+    close() {
+        clearTimeout(this.#botTimer)
+
+        this.#server?.close()
+        this.#server = undefined
+
+        for (const seat of this.#seats) seat.transport.end()
+    }
+
+    #seat(transport: Transport, botFor?: Seat): Seat {
+        const seat: Seat = {
+            transport,
+            decoder: new MessageDecoder(() => this.gameOptions),
+            early: [],
+            botFor
+        };
+
+        this.#seats.add(seat)
+
+        seat.decoder.on('message', (message, xmlStr) => this.#handleMessage(seat, message, xmlStr))
+        seat.decoder.on('error', (err) => this.#emitError(err))
+
+        transport.on('data', (data) => seat.decoder.write(data))
+        transport.on('error', (err) => this.#emitError(err))
+        transport.on('close', () => this.#leave(seat))
+
+        if (transport.connected) this.#send(seat, this.#header())
+        else transport.once('connect', () => this.#send(seat, this.#header()))
+
+        return seat
+    }
+
+    /**
+     * Report an error, without throwing when nobody is listening.
+     */
+    #emitError(err: Error) {
+        if (this.listenerCount('error')) this.emit('error', err)
+    }
+
+    #header(): HeaderMessage {
+        return new HeaderMessage(
+            this.identity.protocolVersion,
+            this.identity.clientName,
+            this.identity.clientVersion,
+            this.identity.clientDescription
+        )
+    }
+
+    #send(seat: Seat, message: Message) {
+        seat.transport.write(message.toXML())
+    }
+
+    #handleMessage(seat: Seat, message: Message, xmlStr: string) {
+        if (seat.partner) return this.#relay(seat, message, xmlStr)
+
+        if (message instanceof HeaderMessage && !seat.header) {
+            const reject = this.#handshakePolicy(message, this.identity);
+
+            if (reject) {
+                this.#send(seat, reject)
+                return seat.transport.end()
+            }
+
+            seat.header = message
+
+            return this.#send(seat, GameOptionsMessage.fromGameOptions(this.gameOptions))
+        }
+
+        // The client confirming our options.
+        if (message instanceof GameOptionsMessage && seat.header) return this.#send(seat, new NickMessage(this.nickname))
+
+        if (message instanceof NickMessage && seat.header && !seat.player) {
+            seat.player = { id: ++this.#ids, nickname: message.nickname, bot: !!seat.botFor, header: seat.header }
+
+            return this.#queue(seat)
+        }
+
+        // Ready before having an opponent: pass it on once matched.
+        if (seat.player) seat.early.push([message, xmlStr])
+    }
+
+    #queue(seat: Seat) {
+        const player = seat.player!;
+
+        // Bots are made for a specific player, and never wait.
+        if (seat.botFor) {
+            if (!this.#seats.has(seat.botFor)) return seat.transport.end()
+
+            return this.#pair(seat.botFor, seat)
+        }
+
+        this.emit('queued', player)
+
+        const partner = this.#waiting.shift();
+
+        if (partner) {
+            // The next player in line, if any, waits for a bot from now on.
+            this.#scheduleBots()
+
+            return this.#pair(partner, seat)
+        }
+
+        seat.waitingSince = Date.now()
+        this.#waiting.push(seat)
+        this.#send(seat, new ChatMessage(`Welcome ${player.nickname}! Waiting for an opponent...`, this.nickname))
+        this.#scheduleBots()
+    }
+
+    /**
+     * Match the player that has waited the longest with a bot, once it has waited long enough.
+     */
+    #scheduleBots() {
+        clearTimeout(this.#botTimer)
+
+        const seat = this.#waiting[0];
+
+        if (!seat || !this.#bots.length) return
+
+        this.#botTimer = setTimeout(() => {
+            const index = this.#waiting.indexOf(seat);
+
+            // The seat may have been matched or have left since, without the timer being cleared.
+            if (index !== -1 && !seat.partner) {
+                this.#waiting.splice(index, 1)
+                this.#matchWithBot(seat)
+            }
+
+            this.#scheduleBots()
+        }, Math.max(0, seat.waitingSince! + this.#botDelay - Date.now()))
+    }
+
+    #matchWithBot(seat: Seat) {
+        const client = this.#bots[this.#nextBot++ % this.#bots.length]!();
+        const [lobbyEnd, botEnd] = createLoopbackPair();
+
+        // The bot's seat is paired with the player once its handshake is done.
+        this.#seat(lobbyEnd, seat)
+
+        client.open(botEnd).catch((err: Error) => {
+            this.#emitError(err)
+
+            if (this.#seats.has(seat) && !seat.partner) {
+                this.#waiting.unshift(seat)
+                this.#scheduleBots()
+            }
+        })
+    }
+
+    #pair(a: Seat, b: Seat) {
+        const match: LobbyMatch = {
+            id: ++this.#matchIds,
+            players: [a.player!, b.player!],
+            startedAt: new Date().toISOString(),
+            results: []
+        };
+
+        a.partner = b
+        b.partner = a
+        a.match = b.match = match
+        a.waitingSince = b.waitingSince = undefined
+
+        this.matches.push(match)
+
+        this.#send(a, new ChatMessage(`You are playing against ${b.player!.nickname}. Place your ships!`, this.nickname))
+        this.#send(b, new ChatMessage(`You are playing against ${a.player!.nickname}. Place your ships!`, this.nickname))
+
+        this.emit('match', match)
+
+        for (const seat of [a, b]) {
+            for (const [message, xmlStr] of seat.early) this.#relay(seat, message, xmlStr)
+            seat.early = []
+        }
+    }
+
+    #relay(seat: Seat, message: Message, xmlStr: string) {
+        // The other player has just left.
+        if (!this.#seats.has(seat.partner!)) return
+
+        seat.partner!.transport.write(xmlStr)
+
+        // The loser sends game over.
+        if (message instanceof GameOverMessage) {
+            const result: LobbyResult = {
+                match: seat.match!.id,
+                winner: seat.partner!.player!.nickname,
+                loser: seat.player!.nickname,
+                finishedAt: new Date().toISOString()
+            };
+
+            seat.match!.results.push(result)
+            this.results.push(result)
+
+            this.emit('gameOver', result, seat.match!)
+        }
+    }
+
+    #leave(seat: Seat) {
+        if (!this.#seats.delete(seat)) return
+
+        seat.decoder.reset()
+
+        const waiting = this.#waiting.indexOf(seat);
+
+        if (waiting !== -1) {
+            this.#waiting.splice(waiting, 1)
+            this.#scheduleBots()
+        }
+
+        if (!seat.partner) return this.emit('leave', seat.player)
+
+        const match = seat.match!;
+
+        // Both players leave, but the match only ends once.
+        if (!this.matches.includes(match)) return
+
+        this.matches = this.matches.filter(other => other !== match)
+        seat.partner.transport.end()
+
+        this.emit('matchEnd', match)
+    }
+}
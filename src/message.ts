@@ -1,4 +1,6 @@
-import { XMLParser, XMLBuilder } from "fast-xml-parser";
+import { XMLParser, XMLBuilder, XMLValidator } from "fast-xml-parser";
+import { ProtocolError } from "./errors.js";
+import type { GameOptions } from "./options.js";
 
 /**
  * The message type sent by a client.
@@ -16,9 +18,18 @@ export enum MessageType {
     GameOptions
 }
 
+/**
+ * The widest and tallest board, and so the longest ship, that a game can have.
+ * Larger sizes are refused, so that another client cannot make this one allocate a huge board.
+ */
+export const MAX_BOARD_SIZE = 100;
+
+// Text is kept exactly as sent, so that nicknames like "007" survive: numbers and booleans are read by MessageFields.
 const parser = new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: '$',
+    parseTagValue: false,
+    trimValues: false
 });
 const builder = new XMLBuilder({
     attributeNamePrefix: '$',
@@ -27,6 +38,48 @@ const builder = new XMLBuilder({
     indentBy: "  "
 });
 
+/**
+ * A message as a plain object, e.g. for logging, IPC or storage. `type` is the name of the message's {@link MessageType}.
+ *
+ * The fields match the properties of each Message class, rather than the XML elements:
+ * `GameOptions`' `allowMultipleOfSame` and `longestShip` are the `oneOrSeveralShips` element and its attribute,
+ * and `shipDefinitions` are its `ships` elements.
+ * @example ```ts
+ * const json = message.toJSON();
+ *
+ * if (json.type == "Move") console.log(json.x, json.y);
+ * if (json.type == "Notification" && json.fieldState == "Sink") console.log(json.sinkCoordinates);
+ * ```
+ */
+export type MessageJSON =
+    | { type: "Header", protocolVersion: string, clientName: string, clientVersion: number, clientDescription: string }
+    | { type: "Reject", versionMismatch: boolean, reason: string }
+    | { type: "Nick", nickname: string }
+    | { type: "Begin" }
+    | { type: "Move", x: number, y: number }
+    | { type: "Notification", x: number, y: number, fieldState: "Hit" | "Miss" }
+    | { type: "Notification", x: number, y: number, fieldState: "Sink", sinkCoordinates: [[number, number], [number, number]] }
+    | { type: "GameOver" }
+    | { type: "Restart" }
+    | { type: "Chat", text: string, nickname: string }
+    | {
+        type: "GameOptions",
+        enabledAdjacentShips: boolean,
+        allowMultipleOfSame: boolean,
+        longestShip: number,
+        boardWidth: number,
+        boardHeight: number,
+        shipDefinitions: ShipDefinition[]
+    };
+
+/**
+ * The plain object form of one type of message.
+ * @example ```ts
+ * const move: MessageJSONOf<"Move"> = { type: "Move", x: 1, y: 6 };
+ * ```
+ */
+export type MessageJSONOf<T extends MessageJSON["type"]> = Extract<MessageJSON, { type: T }>;
+
 /**
  * The base Message class.
  */
@@ -38,6 +91,11 @@ export abstract class Message {
      */
     abstract toXML(): string;
 
+    /**
+     * Convert this message to a plain object, which {@link Message.fromJSON} turns back into the same message.
+     */
+    abstract toJSON(): MessageJSON;
+
     /**
      * Convert this message to XML to send raw over TCP.
      */
@@ -48,7 +106,9 @@ export abstract class Message {
     /**
      * Convert a raw XML message into its respective Message class.
      * @param xmlStr The raw XML string from the other client
+     * @param [board] The board size that co-ordinates must fit in, if known
      * @returns A Message class based on the message given
+     * @throws {ProtocolError} If the message is malformed or a field is missing or invalid
      * @example ```ts
      * const myMessage = `<!DOCTYPE kmessage>
      * <kmessage>
@@ -61,82 +121,325 @@ export abstract class Message {
      * converted instanceof NickMessage; // true
      * ```
      */
-    static fromXML(xmlStr: string): Message {
-        const parsed = parser.parse(xmlStr);
+    static fromXML(xmlStr: string, board?: BoardSize): Message {
+        if (XMLValidator.validate(xmlStr) !== true) throw new ProtocolError('message is not well-formed XML', xmlStr)
 
-        if (!parsed.kmessage) throw new Error('invalid formatting')
+        const parsed = parser.parse(xmlStr);
 
-        const kmessage = parsed.kmessage as {
-            msgtype: {
-                $type: string;
-                '#text': number;
-            };
-            [key: string]: unknown;
-        };
+        if (!parsed.kmessage || typeof parsed.kmessage !== 'object') throw new ProtocolError('invalid formatting', xmlStr)
 
-        const typeNum = kmessage.msgtype['#text'];
-        const type = typeNum as MessageType;
+        const fields = new MessageFields(parsed.kmessage, xmlStr, board);
+        const type = fields.integer('msgtype');
 
         switch (type) {
             case MessageType.Header:
                 return new HeaderMessage(
-                    kmessage.protocolVersion as string,
-                    kmessage.clientName as string,
-                    kmessage.clientVersion as number,
-                    kmessage.clientDescription as string
+                    fields.string('protocolVersion'),
+                    fields.string('clientName'),
+                    fields.number('clientVersion'),
+                    fields.string('clientDescription', '')
                 );
-            case MessageType.GameOptions:
+            case MessageType.GameOptions: {
                 return new GameOptionsMessage(
-                    kmessage.enabledAdjacentShips as boolean,
-                    (kmessage.oneOrSeveralShips as {
-                        '#text': boolean,
-                        '$longestShip': string
-                    })['#text'] as boolean,
-                    parseInt((kmessage.oneOrSeveralShips as {
-                        '#text': boolean,
-                        '$longestShip': string
-                    })['$longestShip']) as number,
-                    kmessage.boardWidth as number,
-                    kmessage.boardHeight as number,
-                    (kmessage.ships as {
-                        '$name': string,
-                        '$number': string,
-                        '$pluralName': string,
-                        '$size': string
-                    }[]).map(x => ({
-                        name: x.$name,
-                        plural: x.$pluralName,
-                        number: parseInt(x.$number),
-                        size: parseInt(x.$size)
-                    }))
+                    fields.boolean('enabledAdjacentShips'),
+                    fields.boolean('oneOrSeveralShips'),
+                    fields.integer('oneOrSeveralShips.longestShip', 1, MAX_BOARD_SIZE),
+                    fields.integer('boardWidth', 1, MAX_BOARD_SIZE),
+                    fields.integer('boardHeight', 1, MAX_BOARD_SIZE),
+                    fields.ships()
                 )
+            }
             case MessageType.Nick:
-                return new NickMessage(kmessage.nickname as string)
+                return new NickMessage(fields.string('nickname'))
             case MessageType.Chat:
-                return new ChatMessage(kmessage.chat as string, kmessage.nickname as string)
+                return new ChatMessage(fields.string('chat'), fields.string('nickname'))
             case MessageType.Begin:
                 return new BeginMessage()
             case MessageType.Move:
-                return new MoveMessage(kmessage.fieldx as number, kmessage.fieldy as number)
-            case MessageType.Notification:
+                return new MoveMessage(fields.coordinate('fieldx', 'x'), fields.coordinate('fieldy', 'y'))
+            case MessageType.Notification: {
+                const fieldstate = fields.integer('fieldstate');
+
+                if (fieldstate !== 1 && fieldstate !== 99) throw new ProtocolError(`fieldstate must be 1 or 99, got ${fieldstate}`, xmlStr, 'fieldstate')
+
+                const death = fields.boolean('death', false);
+
                 return new NotificationMessage(
-                    kmessage.fieldx as number,
-                    kmessage.fieldy as number,
-                    kmessage.fieldstate as 1 | 99,
-                    kmessage.death as true | undefined,
-                    kmessage.xstart && kmessage.xstop && kmessage.ystart && kmessage.ystop ?
-                        [[kmessage.xstart as number, kmessage.ystart as number], [kmessage.xstop as number, kmessage.ystop as number]]
-                        : undefined as [[number, number], [number, number]] | undefined
+                    fields.coordinate('fieldx', 'x'),
+                    fields.coordinate('fieldy', 'y'),
+                    fieldstate,
+                    death,
+                    death ?
+                        [[fields.coordinate('xstart', 'x'), fields.coordinate('ystart', 'y')], [fields.coordinate('xstop', 'x'), fields.coordinate('ystop', 'y')]]
+                        : undefined
                 )
+            }
             case MessageType.GameOver:
                 return new GameOverMessage()
             case MessageType.Restart:
                 return new RestartMessage()
             case MessageType.Reject:
-                return new RejectMessage(kmessage.versionMismatch as boolean, kmessage.reason as string)
+                return new RejectMessage(fields.boolean('versionMismatch'), fields.string('reason', ''))
+            default:
+                throw new ProtocolError(`Unknown message type: ${type}`, xmlStr, 'msgtype');
+        }
+    }
+
+    /**
+     * Convert a plain object made by {@link Message.toJSON} back into its respective Message class.
+     * @param json The plain object, e.g. parsed from a log
+     * @param [board] The board size that co-ordinates must fit in, if known
+     * @returns A Message class based on the object given
+     * @throws {ProtocolError} If the object is not a message, or a field is missing or invalid
+     * @example ```ts
+     * const converted = Message.fromJSON({ type: "Nick", nickname: "DaInfLoop" });
+     *
+     * converted instanceof NickMessage; // true
+     * ```
+     */
+    static fromJSON(json: MessageJSON, board?: BoardSize): Message {
+        const raw = JSON.stringify(json);
+
+        if (!json || typeof json !== 'object' || Array.isArray(json)) throw new ProtocolError('message must be an object', raw)
+
+        const fields = new MessageFields(json as Record<string, unknown>, raw, board);
+        const type = fields.string('type');
+
+        switch (type) {
+            case "Header":
+                return new HeaderMessage(
+                    fields.string('protocolVersion'),
+                    fields.string('clientName'),
+                    fields.number('clientVersion'),
+                    fields.string('clientDescription', '')
+                )
+            case "GameOptions":
+                return new GameOptionsMessage(
+                    fields.boolean('enabledAdjacentShips'),
+                    fields.boolean('allowMultipleOfSame'),
+                    fields.integer('longestShip', 1, MAX_BOARD_SIZE),
+                    fields.integer('boardWidth', 1, MAX_BOARD_SIZE),
+                    fields.integer('boardHeight', 1, MAX_BOARD_SIZE),
+                    fields.shipDefinitions()
+                )
+            case "Nick":
+                return new NickMessage(fields.string('nickname'))
+            case "Chat":
+                return new ChatMessage(fields.string('text'), fields.string('nickname'))
+            case "Begin":
+                return new BeginMessage()
+            case "Move":
+                return new MoveMessage(fields.coordinate('x', 'x'), fields.coordinate('y', 'y'))
+            case "Notification": {
+                const fieldState = fields.string('fieldState');
+
+                if (fieldState !== "Hit" && fieldState !== "Miss" && fieldState !== "Sink") throw new ProtocolError(`fieldState must be Hit, Miss or Sink, got ${fieldState}`, raw, 'fieldState')
+
+                return new NotificationMessage(
+                    fields.coordinate('x', 'x'),
+                    fields.coordinate('y', 'y'),
+                    fieldState == "Miss" ? 99 : 1,
+                    fieldState == "Sink",
+                    fieldState == "Sink" ? fields.sinkCoordinates() : undefined
+                )
+            }
+            case "GameOver":
+                return new GameOverMessage()
+            case "Restart":
+                return new RestartMessage()
+            case "Reject":
+                return new RejectMessage(fields.boolean('versionMismatch'), fields.string('reason', ''))
             default:
-                throw new Error(`Unknown message type: ${type}`);
+                throw new ProtocolError(`Unknown message type: ${type}`, raw, 'type');
+        }
+    }
+}
+
+/**
+ * The size of the board that co-ordinates in a message must fit in.
+ */
+export type BoardSize = {
+    boardWidth: number,
+    boardHeight: number
+}
+
+/**
+ * Read a number written in decimal, such as `-3` or `1.5`. Anything else, like `0x10`, `1e3` or an empty string, is `NaN`.
+ */
+function parseDecimal(text: string): number {
+    return /^\s*-?\d+(\.\d+)?\s*$/.test(text) ? Number(text) : NaN
+}
+
+/**
+ * Reads and validates the fields of a parsed `<kmessage>` or a message's plain object form, throwing a {@link ProtocolError} naming the field on failure.
+ */
+class MessageFields {
+    constructor(private kmessage: Record<string, unknown>, private raw: string, private board?: BoardSize) { }
+
+    /**
+     * Get a field's value, with `a.b` reading attribute `b` of element `a`. Text content of elements with attributes is unwrapped.
+     */
+    #value(name: string): unknown {
+        const [element, attribute] = name.split('.') as [string, string | undefined];
+        let value = this.kmessage[element];
+
+        if (attribute !== undefined) {
+            return value && typeof value === 'object' ? (value as Record<string, unknown>)[`$${attribute}`] : undefined
+        }
+
+        if (value && typeof value === 'object' && '#text' in value) value = value['#text']
+
+        return value
+    }
+
+    #fail(name: string, problem: string): never {
+        throw new ProtocolError(`${name} ${problem}`, this.raw, name)
+    }
+
+    string(name: string, fallback?: string): string {
+        const value = this.#value(name);
+
+        if (value === undefined && fallback !== undefined) return fallback
+        if (value === undefined) this.#fail(name, 'is missing')
+        if (typeof value !== 'string') this.#fail(name, 'must be text')
+
+        return value
+    }
+
+    number(name: string): number {
+        const value = this.#value(name);
+        const number = typeof value === 'string' ? parseDecimal(value) : value;
+
+        if (value === undefined) this.#fail(name, 'is missing')
+        if (typeof number !== 'number' || !Number.isFinite(number)) this.#fail(name, 'must be a number')
+
+        return number
+    }
+
+    integer(name: string, min?: number, max?: number): number {
+        const value = this.number(name);
+
+        if (!Number.isInteger(value)) this.#fail(name, 'must be an integer')
+        if (min !== undefined && value < min) this.#fail(name, `must be at least ${min}`)
+        if (max !== undefined && value > max) this.#fail(name, `must be at most ${max}`)
+
+        return value
+    }
+
+    boolean(name: string, fallback?: boolean): boolean {
+        const value = this.#value(name);
+
+        if (value === undefined && fallback !== undefined) return fallback
+        if (value === undefined) this.#fail(name, 'is missing')
+        if (value === 'true' || value === 'false') return value === 'true'
+        if (typeof value !== 'boolean') this.#fail(name, 'must be true or false')
+
+        return value
+    }
+
+    coordinate(name: string, axis: 'x' | 'y'): number {
+        const value = this.integer(name, 0);
+        const size = axis == 'x' ? this.board?.boardWidth : this.board?.boardHeight;
+
+        if (size !== undefined && value >= size) this.#fail(name, `must be less than the board ${axis == 'x' ? 'width' : 'height'} (${size})`)
+
+        return value
+    }
+
+    ships(): ShipDefinition[] {
+        const ships = this.kmessage.ships;
+
+        if (ships === undefined) this.#fail('ships', 'is missing')
+
+        // A single <ships> element is parsed as an object rather than an array.
+        return (Array.isArray(ships) ? ships : [ships]).map((ship, i) => {
+            const name = `ships[${i}]`;
+
+            if (!ship || typeof ship !== 'object') this.#fail(name, 'must have attributes')
+
+            const attribute = (key: string): string => {
+                const value = (ship as Record<string, unknown>)[`$${key}`];
+
+                if (typeof value !== 'string') this.#fail(`${name}.${key}`, 'is missing')
+
+                return value
+            }
+            const integerAttribute = (key: string, min: number, max: number): number => {
+                const value = parseDecimal(attribute(key));
+
+                if (!Number.isInteger(value) || value < min || value > max) this.#fail(`${name}.${key}`, `must be an integer from ${min} to ${max}`)
+
+                return value
+            }
+
+            return {
+                name: attribute('name'),
+                plural: attribute('pluralName'),
+                number: integerAttribute('number', 0, MAX_BOARD_SIZE ** 2),
+                size: integerAttribute('size', 1, MAX_BOARD_SIZE)
+            }
+        })
+    }
+
+    /**
+     * Read the `shipDefinitions` of a message's plain object form.
+     */
+    shipDefinitions(): ShipDefinition[] {
+        const definitions = this.kmessage.shipDefinitions;
+
+        if (!Array.isArray(definitions)) this.#fail('shipDefinitions', 'must be a list')
+
+        return definitions.map((definition, i) => {
+            const name = `shipDefinitions[${i}]`;
+
+            if (!definition || typeof definition !== 'object') this.#fail(name, 'must be an object')
+
+            const text = (key: string): string => {
+                const value = (definition as Record<string, unknown>)[key];
+
+                if (typeof value !== 'string') this.#fail(`${name}.${key}`, 'must be text')
+
+                return value
+            }
+            const integer = (key: string, min: number, max: number): number => {
+                const value = (definition as Record<string, unknown>)[key];
+
+                if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) this.#fail(`${name}.${key}`, `must be an integer from ${min} to ${max}`)
+
+                return value
+            }
+
+            return {
+                name: text('name'),
+                plural: text('plural'),
+                number: integer('number', 0, MAX_BOARD_SIZE ** 2),
+                size: integer('size', 1, MAX_BOARD_SIZE)
+            }
+        })
+    }
+
+    /**
+     * Read the `sinkCoordinates` of a message's plain object form.
+     */
+    sinkCoordinates(): [[number, number], [number, number]] {
+        const coordinates = this.kmessage.sinkCoordinates;
+
+        if (!Array.isArray(coordinates) || coordinates.length !== 2 || !coordinates.every(pair => Array.isArray(pair) && pair.length == 2)) {
+            this.#fail('sinkCoordinates', 'must be two [x, y] pairs')
         }
+
+        // Named after their place in the list, so errors point at the right one.
+        const fields = new MessageFields({
+            'sinkCoordinates[0][0]': coordinates[0][0],
+            'sinkCoordinates[0][1]': coordinates[0][1],
+            'sinkCoordinates[1][0]': coordinates[1][0],
+            'sinkCoordinates[1][1]': coordinates[1][1]
+        }, this.raw, this.board);
+
+        return [
+            [fields.coordinate('sinkCoordinates[0][0]', 'x'), fields.coordinate('sinkCoordinates[0][1]', 'y')],
+            [fields.coordinate('sinkCoordinates[1][0]', 'x'), fields.coordinate('sinkCoordinates[1][1]', 'y')]
+        ]
     }
 }
 
@@ -148,6 +451,16 @@ export class HeaderMessage extends Message {
         super(MessageType.Header)
     }
 
+    toJSON(): MessageJSONOf<"Header"> {
+        return {
+            type: "Header",
+            protocolVersion: this.protocolVersion,
+            clientName: this.clientName,
+            clientVersion: this.clientVersion,
+            clientDescription: this.clientDescription
+        }
+    }
+
     toXML(): string {
         return `<!DOCTYPE kmessage>
 ${builder.build({
@@ -175,6 +488,10 @@ export class NickMessage extends Message {
         super(MessageType.Nick)
     }
 
+    toJSON(): MessageJSONOf<"Nick"> {
+        return { type: "Nick", nickname: this.nickname }
+    }
+
     toXML(): string {
         return `<!DOCTYPE kmessage>
 ${builder.build({
@@ -208,7 +525,48 @@ export class GameOptionsMessage extends Message {
         public boardHeight: number,
         public shipDefinitions: ShipDefinition[]
     ) {
-        super(MessageType.Header)
+        super(MessageType.GameOptions)
+    }
+
+    /**
+     * Create the message a host sends to offer some game options.
+     * @param {GameOptions} gameOptions The options, such as {@link NavalClient.gameOptions}.
+     */
+    static fromGameOptions(gameOptions: GameOptions): GameOptionsMessage {
+        return new GameOptionsMessage(
+            gameOptions.adjacentShips,
+            gameOptions.allowMultipleOfSame,
+            gameOptions.longestShip,
+            gameOptions.boardWidth,
+            gameOptions.boardHeight,
+            gameOptions.shipDefinitions.map(definition => ({ ...definition }))
+        )
+    }
+
+    /**
+     * The options this message offers, in the shape used by {@link NavalClient.gameOptions}.
+     */
+    toGameOptions(): GameOptions {
+        return {
+            adjacentShips: this.enabledAdjacentShips,
+            allowMultipleOfSame: this.allowMultipleOfSame,
+            longestShip: this.longestShip,
+            boardWidth: this.boardWidth,
+            boardHeight: this.boardHeight,
+            shipDefinitions: this.shipDefinitions.map(definition => ({ ...definition }))
+        }
+    }
+
+    toJSON(): MessageJSONOf<"GameOptions"> {
+        return {
+            type: "GameOptions",
+            enabledAdjacentShips: this.enabledAdjacentShips,
+            allowMultipleOfSame: this.allowMultipleOfSame,
+            longestShip: this.longestShip,
+            boardWidth: this.boardWidth,
+            boardHeight: this.boardHeight,
+            shipDefinitions: this.shipDefinitions.map(definition => ({ ...definition }))
+        }
     }
 
     toXML(): string {
@@ -248,6 +606,10 @@ export class ChatMessage extends Message {
         super(MessageType.Chat)
     }
 
+    toJSON(): MessageJSONOf<"Chat"> {
+        return { type: "Chat", text: this.text, nickname: this.nickname }
+    }
+
     toXML(): string {
         return `<!DOCTYPE kmessage>
 ${builder.build({
@@ -271,6 +633,10 @@ export class BeginMessage extends Message {
         super(MessageType.Begin)
     }
 
+    toJSON(): MessageJSONOf<"Begin"> {
+        return { type: "Begin" }
+    }
+
     toXML(): string {
         return `<!DOCTYPE kmessage>
 ${builder.build({
@@ -300,6 +666,12 @@ export class NotificationMessage extends Message {
         }
     }
 
+    toJSON(): MessageJSONOf<"Notification"> {
+        if (this.fieldState !== "Sink") return { type: "Notification", x: this.x, y: this.y, fieldState: this.fieldState }
+
+        return { type: "Notification", x: this.x, y: this.y, fieldState: this.fieldState, sinkCoordinates: this.sinkCoordinates! }
+    }
+
     toXML(): string {
         if (this.fieldState !== "Sink") {
             return `<!DOCTYPE kmessage>
@@ -375,6 +747,10 @@ export class MoveMessage extends Message {
         }
     }
 
+    toJSON(): MessageJSONOf<"Move"> {
+        return { type: "Move", x: this.x, y: this.y }
+    }
+
     toXML(): string {
         return `<!DOCTYPE kmessage>
 ${builder.build({
@@ -398,6 +774,10 @@ export class GameOverMessage extends Message {
         super(MessageType.GameOver)
     }
 
+    toJSON(): MessageJSONOf<"GameOver"> {
+        return { type: "GameOver" }
+    }
+
     toXML(): string {
         return `<!DOCTYPE kmessage>
 ${builder.build({
@@ -421,6 +801,10 @@ export class RestartMessage extends Message {
         super(MessageType.Restart)
     }
 
+    toJSON(): MessageJSONOf<"Restart"> {
+        return { type: "Restart" }
+    }
+
     toXML(): string {
         return `<!DOCTYPE kmessage>
 ${builder.build({
@@ -442,6 +826,10 @@ export class RejectMessage extends Message {
         super(MessageType.Reject)
     }
 
+    toJSON(): MessageJSONOf<"Reject"> {
+        return { type: "Reject", versionMismatch: this.versionMismatch, reason: this.reason }
+    }
+
     toXML(): string {
         return `<!DOCTYPE kmessage>
 ${builder.build({
@@ -0,0 +1,197 @@
+import type { GameOptions } from "./client.js";
+import type { NotificationMessage, ShipDefinition } from "./message.js";
+
+/**
+ * What is known about a co-ordinate on the other client's shipyard.
+ */
+export enum CellState {
+    /**
+     * Not shot at yet.
+     */
+    Unknown,
+
+    /**
+     * Shot at, and nothing was there.
+     */
+    Miss,
+
+    /**
+     * Shot at, and part of a ship that has not sunk yet was hit.
+     */
+    Hit,
+
+    /**
+     * Part of a ship that has sunk.
+     */
+    Sunk,
+
+    /**
+     * Not shot at, but no ship can be there because it touches a sunk ship.
+     */
+    Impossible
+}
+
+/**
+ * A ship that this client has sunk.
+ */
+export type SunkShip = {
+    /**
+     * The definition matching the ship's size, if one was still afloat.
+     */
+    definition?: ShipDefinition,
+
+    /**
+     * The start and end co-ordinates of the ship.
+     */
+    coordinates: [[number, number], [number, number]]
+}
+
+/**
+ * Tracks the results of this client's shots at the other client's shipyard.
+ * @example ```ts
+ * client.on("canFire", async () => {
+ *     const [x, y] = client.opponentBoard.candidateCells()[0]!;
+ *
+ *     await client.sendFireAt([x, y]);
+ *
+ *     console.log(client.opponentBoard.remainingShips());
+ * });
+ * ```
+ */
+export class OpponentBoard {
+    #cells: CellState[];
+
+    /**
+     * The ships sunk so far, in the order they sank.
+     */
+    sunkShips: SunkShip[] = [];
+
+    constructor(public gameOptions: GameOptions) {
+        this.#cells = new Array(gameOptions.boardWidth * gameOptions.boardHeight).fill(CellState.Unknown)
+    }
+
+    /**
+     * Check whether a co-ordinate is on the board.
+     */
+    inBounds(x: number, y: number): boolean {
+        return Number.isInteger(x) && Number.isInteger(y)
+            && x >= 0 && y >= 0 && x < this.gameOptions.boardWidth && y < this.gameOptions.boardHeight
+    }
+
+    /**
+     * Get what is known about a co-ordinate.
+     * @throws If the co-ordinate is not on the board.
+     */
+    cellState(x: number, y: number): CellState {
+        if (!this.inBounds(x, y)) throw new Error(`(${x}, ${y}) is not on the board`)
+
+        return this.#cells[y * this.gameOptions.boardWidth + x]!
+    }
+
+    /**
+     * Record the other client's answer to one of this client's shots.
+     * @param {NotificationMessage} notification The answer from {@link NavalClient.sendFireAt}.
+     */
+    record(notification: NotificationMessage) {
+        const { x, y } = notification;
+
+        if (notification.fieldState == "Miss") return this.#set(x, y, CellState.Miss)
+
+        this.#set(x, y, CellState.Hit)
+
+        if (notification.fieldState == "Sink" && notification.sinkCoordinates) {
+            this.#sink(notification.sinkCoordinates)
+        }
+    }
+
+    /**
+     * Work out which ships are still afloat.
+     * @returns The game's ship definitions, with `number` reduced by the ships already sunk. Definitions with none left are left out.
+     */
+    remainingShips(): ShipDefinition[] {
+        return this.gameOptions.shipDefinitions
+            .map(definition => ({
+                ...definition,
+                number: definition.number - this.sunkShips.filter(ship => ship.definition?.name == definition.name).length
+            }))
+            .filter(definition => definition.number > 0)
+    }
+
+    /**
+     * List every co-ordinate that could still hold a ship and has not been shot at.
+     */
+    candidateCells(): [number, number][] {
+        return this.#cellsIn(CellState.Unknown)
+    }
+
+    /**
+     * List every co-ordinate that was hit but whose ship has not sunk yet.
+     */
+    openHits(): [number, number][] {
+        return this.#cellsIn(CellState.Hit)
+    }
+
+    /**
+     * Whether every ship has been sunk.
+     */
+    get cleared(): boolean {
+        return this.remainingShips().length == 0
+    }
+
+    /**
+     * Forget every shot, e.g. for a new game.
+     */
+    reset() {
+        this.#cells.fill(CellState.Unknown)
+        this.sunkShips = []
+    }
+
+    #sink(coordinates: [[number, number], [number, number]]) {
+        const [[xStart, yStart], [xStop, yStop]] = coordinates;
+        const size = Math.max(Math.abs(xStop - xStart), Math.abs(yStop - yStart)) + 1;
+        const definition = this.remainingShips().find(definition => definition.size == size);
+
+        this.sunkShips.push({
+            definition: definition && this.gameOptions.shipDefinitions.find(original => original.name == definition.name),
+            coordinates
+        })
+
+        const cells: [number, number][] = [];
+
+        for (let x = Math.min(xStart, xStop); x <= Math.max(xStart, xStop); x++) {
+            for (let y = Math.min(yStart, yStop); y <= Math.max(yStart, yStop); y++) {
+                cells.push([x, y])
+                this.#set(x, y, CellState.Sunk)
+            }
+        }
+
+        if (this.gameOptions.adjacentShips) return
+
+        for (const [x, y] of cells) {
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    if (this.inBounds(x + dx, y + dy) && this.cellState(x + dx, y + dy) == CellState.Unknown) {
+                        this.#set(x + dx, y + dy, CellState.Impossible)
+                    }
+                }
+            }
+        }
+    }
+
+    #set(x: number, y: number, state: CellState) {
+        if (!this.inBounds(x, y)) return
+
+        this.#cells[y * this.gameOptions.boardWidth + x] = state
+    }
+
+    #cellsIn(state: CellState): [number, number][] {
+        const { boardWidth } = this.gameOptions;
+        const coordinates: [number, number][] = [];
+
+        this.#cells.forEach((cell, i) => {
+            if (cell == state) coordinates.push([i % boardWidth, Math.floor(i / boardWidth)])
+        })
+
+        return coordinates
+    }
+}
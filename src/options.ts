@@ -0,0 +1,235 @@
+import { MAX_BOARD_SIZE, type ShipDefinition } from "./message.js";
+import { checkFleetFits } from "./placement.js";
+
+/**
+ * The options that a game is played with.
+ */
+export type GameOptions = {
+    adjacentShips: boolean,
+    allowMultipleOfSame: boolean,
+    longestShip: number,
+    boardWidth: number,
+    boardHeight: number,
+    shipDefinitions: ShipDefinition[]
+}
+
+/**
+ * The options KNavalBattle uses by default: a 10x10 board with one ship of each size from 1 to 4.
+ */
+export const DEFAULT_GAME_OPTIONS: GameOptions = {
+    adjacentShips: true,
+    allowMultipleOfSame: false,
+    longestShip: 4,
+    boardHeight: 10,
+    boardWidth: 10,
+    shipDefinitions: [
+        {
+            name: "minesweeper",
+            plural: "minesweepers",
+            number: 1,
+            size: 1
+        },
+        {
+            name: "frigate",
+            plural: "frigates",
+            number: 1,
+            size: 2
+        },
+        {
+            name: "cruise",
+            plural: "cruises",
+            number: 1,
+            size: 3
+        },
+        {
+            name: "carrier",
+            plural: "carriers",
+            number: 1,
+            size: 4
+        }
+    ]
+}
+
+/**
+ * The names of the {@link GAME_OPTIONS_PRESETS}.
+ */
+export type GameOptionsPreset = "knavalbattle" | "miltonBradley" | "large" | "huge";
+
+/**
+ * Ready-made game options.
+ *
+ * - `knavalbattle`: KNavalBattle's own, the same as {@link DEFAULT_GAME_OPTIONS}.
+ * - `miltonBradley`: the classic board game's five ships, from a destroyer of size 2 to a carrier of size 5, on a 10x10 board.
+ * - `large`: two of each of KNavalBattle's ships on a 15x15 board.
+ * - `huge`: three of each of KNavalBattle's ships on a 20x20 board.
+ */
+export const GAME_OPTIONS_PRESETS: Record<GameOptionsPreset, GameOptions> = {
+    knavalbattle: DEFAULT_GAME_OPTIONS,
+    miltonBradley: {
+        adjacentShips: true,
+        allowMultipleOfSame: false,
+        longestShip: 5,
+        boardHeight: 10,
+        boardWidth: 10,
+        shipDefinitions: [
+            { name: "destroyer", plural: "destroyers", number: 1, size: 2 },
+            { name: "submarine", plural: "submarines", number: 1, size: 3 },
+            { name: "cruiser", plural: "cruisers", number: 1, size: 3 },
+            { name: "battleship", plural: "battleships", number: 1, size: 4 },
+            { name: "carrier", plural: "carriers", number: 1, size: 5 }
+        ]
+    },
+    large: {
+        ...DEFAULT_GAME_OPTIONS,
+        allowMultipleOfSame: true,
+        boardHeight: 15,
+        boardWidth: 15,
+        shipDefinitions: DEFAULT_GAME_OPTIONS.shipDefinitions.map(definition => ({ ...definition, number: 2 }))
+    },
+    huge: {
+        ...DEFAULT_GAME_OPTIONS,
+        allowMultipleOfSame: true,
+        boardHeight: 20,
+        boardWidth: 20,
+        shipDefinitions: DEFAULT_GAME_OPTIONS.shipDefinitions.map(definition => ({ ...definition, number: 3 }))
+    }
+}
+
+/**
+ * Check that game options make sense, before playing with them.
+ * @param {GameOptions} gameOptions The options to check.
+ * @throws If the board or a ship has no size or is larger than {@link MAX_BOARD_SIZE}, ship names repeat, there is no ship to place, `longestShip` does not match the ships,
+ * several ships of a kind are asked for without `allowMultipleOfSame`, or the ships cannot fit on the board.
+ */
+export function validateGameOptions(gameOptions: GameOptions) {
+    const { boardWidth, boardHeight, shipDefinitions, longestShip } = gameOptions;
+
+    if (!Number.isInteger(boardWidth) || !Number.isInteger(boardHeight) || boardWidth < 1 || boardHeight < 1) {
+        throw new Error(`board size must be positive integers, got ${boardWidth}x${boardHeight}`)
+    }
+
+    if (boardWidth > MAX_BOARD_SIZE || boardHeight > MAX_BOARD_SIZE) {
+        throw new Error(`board size must be at most ${MAX_BOARD_SIZE}x${MAX_BOARD_SIZE}, got ${boardWidth}x${boardHeight}`)
+    }
+
+    if (!shipDefinitions.length) throw new Error('there must be at least one kind of ship')
+
+    const names = new Set<string>();
+
+    for (const definition of shipDefinitions) {
+        if (!definition.name) throw new Error('every ship needs a name')
+        if (names.has(definition.name)) throw new Error(`ship "${definition.name}" is defined more than once`)
+
+        names.add(definition.name)
+
+        if (!Number.isInteger(definition.size) || definition.size < 1) throw new Error(`ship "${definition.name}" must have a positive size, got ${definition.size}`)
+        if (!Number.isInteger(definition.number) || definition.number < 0) throw new Error(`ship "${definition.name}" must have a number of 0 or more, got ${definition.number}`)
+
+        if (definition.number > 1 && !gameOptions.allowMultipleOfSame) {
+            throw new Error(`${definition.number} ${definition.plural} need allowMultipleOfSame`)
+        }
+    }
+
+    if (!shipDefinitions.some(definition => definition.number > 0)) throw new Error('there must be at least one ship to place')
+
+    const longest = Math.max(...shipDefinitions.map(definition => definition.size));
+
+    if (longestShip !== longest) throw new Error(`longestShip is ${longestShip}, but the longest ship has a size of ${longest}`)
+
+    checkFleetFits(gameOptions)
+}
+
+/**
+ * Builds validated {@link GameOptions}, starting from a preset.
+ * @example ```ts
+ * const gameOptions = new GameOptionsBuilder("knavalbattle")
+ *     .board(12, 12)
+ *     .ship("submarine", 3, 2)
+ *     .allowMultipleOfSame()
+ *     .build();
+ *
+ * const client = new NavalClient("Host", { gameOptions });
+ * ```
+ */
+export class GameOptionsBuilder {
+    #options: GameOptions;
+
+    /**
+     * @param {GameOptionsPreset | GameOptions} [base] The preset or options to start from. Defaults to KNavalBattle's.
+     */
+    constructor(base: GameOptionsPreset | GameOptions = "knavalbattle") {
+        this.#options = structuredClone(typeof base === "string" ? GAME_OPTIONS_PRESETS[base] : base)
+    }
+
+    /**
+     * Set the size of the board.
+     */
+    board(width: number, height: number = width): this {
+        this.#options.boardWidth = width
+        this.#options.boardHeight = height
+        return this
+    }
+
+    /**
+     * Set whether ships may touch each other.
+     */
+    adjacentShips(allowed: boolean = true): this {
+        this.#options.adjacentShips = allowed
+        return this
+    }
+
+    /**
+     * Set whether there may be several ships of one kind.
+     */
+    allowMultipleOfSame(allowed: boolean = true): this {
+        this.#options.allowMultipleOfSame = allowed
+        return this
+    }
+
+    /**
+     * Add a kind of ship, or replace the one with the same name.
+     * @param {string} name The ship's name.
+     * @param {number} size How many cells the ship covers.
+     * @param {number} [number] How many of the ship each player places.
+     * @param {string} [plural] The ship's name when there are several. Defaults to the name followed by "s".
+     */
+    ship(name: string, size: number, number: number = 1, plural: string = `${name}s`): this {
+        const definition: ShipDefinition = { name, plural, number, size };
+        const index = this.#options.shipDefinitions.findIndex(existing => existing.name == name);
+
+        if (index === -1) this.#options.shipDefinitions.push(definition)
+        else this.#options.shipDefinitions[index] = definition
+
+        return this
+    }
+
+    /**
+     * Remove a kind of ship.
+     */
+    removeShip(name: string): this {
+        this.#options.shipDefinitions = this.#options.shipDefinitions.filter(definition => definition.name !== name)
+        return this
+    }
+
+    /**
+     * Remove every kind of ship, to define them all from scratch.
+     */
+    clearShips(): this {
+        this.#options.shipDefinitions = []
+        return this
+    }
+
+    /**
+     * Finish the options, working out `longestShip` from the ships.
+     * @returns A new copy of the options every time.
+     * @throws If the options are not valid, as checked by {@link validateGameOptions}.
+     */
+    build(): GameOptions {
+        const options = structuredClone(this.#options);
+
+        options.longestShip = Math.max(0, ...options.shipDefinitions.map(definition => definition.size))
+        validateGameOptions(options)
+
+        return options
+    }
+}
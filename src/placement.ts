@@ -0,0 +1,230 @@
+import type { PlacementPolicy } from "./bot.js";
+import type { GameOptions } from "./client.js";
+import { Fleet, Ship, type Orientation } from "./fleet.js";
+import type { ShipDefinition } from "./message.js";
+import { seededRandom, type RandomSource } from "./targeting.js";
+
+/**
+ * How {@link generateFleet} prefers to lay ships out.
+ *
+ * - `random`: every legal placement is as likely as any other.
+ * - `edge`: ships hug the edges of the board.
+ * - `spread`: ships keep as far from each other as they can.
+ * - `clustered`: ships gather close together.
+ */
+export type PlacementStyle = "random" | "edge" | "spread" | "clustered";
+
+/**
+ * Options for {@link generateFleet}.
+ */
+export type FleetGeneratorOptions = {
+    /**
+     * Makes the same layout every time for the same seed and game options.
+     */
+    seed?: number,
+
+    /**
+     * Where random numbers come from, when no seed is given. Defaults to `Math.random`.
+     */
+    random?: RandomSource,
+
+    /**
+     * How to lay ships out. Defaults to `random`.
+     */
+    style?: PlacementStyle,
+
+    /**
+     * A fleet to complete. Ships already placed in it are kept, and only the missing ones are generated.
+     */
+    fleet?: Fleet
+}
+
+/**
+ * How many placements to try before giving up on a layout that passed {@link checkFleetFits}.
+ */
+const MAX_ATTEMPTS = 2000;
+
+/**
+ * Check that a game's ships can fit on its board, before trying to place them.
+ * @param {GameOptions} gameOptions The options to check.
+ * @throws If a ship has no size, is longer than the board, or if the ships need more room than the board has.
+ */
+export function checkFleetFits(gameOptions: GameOptions) {
+    const { boardWidth, boardHeight, shipDefinitions, adjacentShips } = gameOptions;
+
+    if (!(boardWidth > 0 && boardHeight > 0)) throw new Error(`a ${boardWidth}x${boardHeight} board has no room for ships`)
+
+    for (const definition of shipDefinitions) {
+        if (!Number.isInteger(definition.size) || definition.size < 1) throw new Error(`ship "${definition.name}" has a size of ${definition.size}`)
+        if (!Number.isInteger(definition.number) || definition.number < 0) throw new Error(`ship "${definition.name}" has a number of ${definition.number}`)
+
+        if (definition.number && definition.size > Math.max(boardWidth, boardHeight)) {
+            throw new Error(`a ${definition.name} of size ${definition.size} is longer than the ${boardWidth}x${boardHeight} board`)
+        }
+    }
+
+    const cells = shipDefinitions.reduce((total, definition) => total + definition.number * definition.size, 0);
+
+    if (cells > boardWidth * boardHeight) {
+        throw new Error(`the ships cover ${cells} cells, but the ${boardWidth}x${boardHeight} board only has ${boardWidth * boardHeight}`)
+    }
+
+    if (adjacentShips) return
+
+    // Ships that may not touch each need their cells and the row below and column to the right of them,
+    // which all fit on the board grown by one row and one column.
+    const padded = shipDefinitions.reduce((total, definition) => total + definition.number * (definition.size + 1) * 2, 0);
+    const room = (boardWidth + 1) * (boardHeight + 1);
+
+    if (padded > room) throw new Error(`the ships cannot fit on a ${boardWidth}x${boardHeight} board without touching`)
+}
+
+/**
+ * Build a complete, legal fleet for a game, placing ships at random.
+ *
+ * Ships are placed longest first, going back on earlier ships when a later one no longer fits.
+ * @param {GameOptions} gameOptions The options to follow, such as {@link NavalClient.gameOptions}.
+ * @param {FleetGeneratorOptions} [options]
+ * @returns A fleet that can be attached with {@link NavalClient.attachFleet}.
+ * @throws If the ships cannot all fit on the board.
+ * @example ```ts
+ * client.on("connect", () => {
+ *     client.attachFleet(generateFleet(client.gameOptions, { seed: 42, style: "spread" }));
+ * });
+ * ```
+ */
+export function generateFleet(gameOptions: GameOptions, options: FleetGeneratorOptions = {}): Fleet {
+    checkFleetFits(gameOptions)
+
+    const random = options.seed !== undefined ? seededRandom(options.seed) : options.random ?? Math.random;
+    const style = options.style ?? "random";
+    const fleet = options.fleet ?? new Fleet(gameOptions);
+    const missing = gameOptions.shipDefinitions
+        .flatMap(definition => {
+            const placed = fleet.ships.filter(ship => ship.definition.name == definition.name).length;
+
+            return Array<ShipDefinition>(Math.max(0, definition.number - placed)).fill(definition)
+        })
+        .sort((a, b) => b.size - a.size);
+    let attempts = 0;
+
+    const placeFrom = (index: number): boolean => {
+        const definition = missing[index];
+
+        if (!definition) return true
+
+        const candidates = legalPlacements(definition, fleet.ships, gameOptions);
+
+        while (candidates.length) {
+            if (++attempts > MAX_ATTEMPTS) return false
+
+            const weights = candidates.map(candidate => weigh(candidate, fleet.ships, gameOptions, style));
+            const [candidate] = candidates.splice(pickWeighted(weights, random), 1);
+            const ship = fleet.place(definition.name, candidate!.x, candidate!.y, candidate!.orientation);
+
+            if (placeFrom(index + 1)) return true
+
+            fleet.remove(ship)
+        }
+
+        return false
+    };
+
+    if (!placeFrom(0)) throw new Error('could not fit the fleet on the board')
+
+    return fleet
+}
+
+/**
+ * Create a {@link PlacementPolicy} for a {@link NavalBot} that generates a new fleet every game.
+ * @param {Omit<FleetGeneratorOptions, "fleet">} [options] With a seed, the bot places the same sequence of fleets every time it is created.
+ * @example ```ts
+ * new NavalBot(client, { placement: randomPlacement({ style: "edge" }), targeting: new HuntTargetStrategy() }).start();
+ * ```
+ */
+export function randomPlacement(options: Omit<FleetGeneratorOptions, "fleet"> = {}): PlacementPolicy {
+    const random = options.seed !== undefined ? seededRandom(options.seed) : options.random ?? Math.random;
+
+    return (gameOptions) => generateFleet(gameOptions, { random, style: options.style })
+}
+
+/**
+ * List every position a ship can go without breaking the rules.
+ */
+function legalPlacements(definition: ShipDefinition, placed: Ship[], gameOptions: GameOptions): Ship[] {
+    const { boardWidth, boardHeight, adjacentShips } = gameOptions;
+    const orientations: Orientation[] = definition.size == 1 ? ["horizontal"] : ["horizontal", "vertical"];
+    const placements: Ship[] = [];
+
+    for (const orientation of orientations) {
+        const width = orientation == "horizontal" ? definition.size : 1;
+        const height = orientation == "vertical" ? definition.size : 1;
+
+        for (let y = 0; y + height <= boardHeight; y++) {
+            for (let x = 0; x + width <= boardWidth; x++) {
+                const ship = new Ship(definition, x, y, orientation);
+                const blocked = ship.cells.some(([cx, cy]) =>
+                    placed.some(other => adjacentShips ? other.occupies(cx, cy) : other.touches(cx, cy))
+                );
+
+                if (!blocked) placements.push(ship)
+            }
+        }
+    }
+
+    return placements
+}
+
+/**
+ * Score a placement by how well it suits a style. Higher scores are picked more often.
+ */
+function weigh(ship: Ship, placed: Ship[], gameOptions: GameOptions, style: PlacementStyle): number {
+    switch (style) {
+        case "edge": {
+            const { boardWidth, boardHeight } = gameOptions;
+            const onEdge = ship.cells.some(([x, y]) => x == 0 || y == 0 || x == boardWidth - 1 || y == boardHeight - 1);
+
+            return onEdge ? 20 : 1
+        }
+
+        case "spread":
+            return placed.length ? distance(ship, placed) ** 3 : 1
+
+        case "clustered":
+            return placed.length ? 1 / distance(ship, placed) ** 3 : 1
+
+        default:
+            return 1
+    }
+}
+
+/**
+ * The number of cells, counting diagonals, between a ship and the closest placed ship.
+ */
+function distance(ship: Ship, placed: Ship[]): number {
+    let closest = Infinity;
+
+    for (const [x, y] of ship.cells) {
+        for (const other of placed) {
+            for (const [ox, oy] of other.cells) closest = Math.min(closest, Math.max(Math.abs(x - ox), Math.abs(y - oy)))
+        }
+    }
+
+    return closest
+}
+
+/**
+ * Pick an index at random, in proportion to its weight.
+ */
+function pickWeighted(weights: number[], random: RandomSource): number {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let target = random() * total;
+
+    for (let i = 0; i < weights.length; i++) {
+        target -= weights[i]!
+
+        if (target < 0) return i
+    }
+
+    return weights.length - 1
+}
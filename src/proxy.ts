@@ -0,0 +1,440 @@
+import EventEmitter from "node:events";
+import { writeFile } from "node:fs/promises";
+import { createConnection, createServer, type Server, type Socket } from "node:net";
+import { join } from "node:path";
+import { DEFAULT_GAME_OPTIONS, type GameOptions } from "./client.js";
+import { MessageDecoder } from "./decoder.js";
+import {
+    BeginMessage,
+    ChatMessage,
+    GameOptionsMessage,
+    GameOverMessage,
+    MoveMessage,
+    NickMessage,
+    NotificationMessage,
+    type Message
+} from "./message.js";
+import { OpponentBoard } from "./opponent.js";
+import { RECORDING_VERSION, serializeRecording, type RecordedMessage, type Recording } from "./recorder.js";
+
+/**
+ * One of the two clients a {@link SpectatorProxy} sits between.
+ */
+export type ProxySide = "host" | "guest";
+
+/**
+ * A shot seen by a {@link Spectator}, once it has been answered.
+ */
+export type SpectatedShot = {
+    /**
+     * The side that fired.
+     */
+    side: ProxySide,
+
+    /**
+     * The nickname of the player who fired.
+     */
+    nickname?: string,
+
+    move: MoveMessage,
+    answer: NotificationMessage,
+
+    /**
+     * How many shots have been answered this game, including this one.
+     */
+    number: number
+}
+
+/**
+ * Options for a {@link SpectatorProxy}.
+ */
+export type SpectatorProxyOptions = {
+    /**
+     * A directory to write a JSON Lines recording of every proxied connection to, once it closes.
+     * Recordings are made from the host's point of view, so they can be played back with {@link GameReplayer}.
+     */
+    recordings?: string
+}
+
+const other = (side: ProxySide): ProxySide => side == "host" ? "guest" : "host";
+
+/**
+ * Watches the messages of one game between two clients, and rebuilds both boards from the shots and their answers.
+ * @extends {EventEmitter}
+ */
+export class Spectator extends EventEmitter<{
+    // A side sent a message: the side and the message are passed as arguments
+    message: [ProxySide, Message]
+
+    // Both clients introduced themselves
+    connect: [string, string]
+
+    // Both clients placed their ships, and a game started
+    begin: []
+
+    // A shot was answered
+    shot: [SpectatedShot]
+
+    // A side sent a chat message
+    chat: [ProxySide, ChatMessage]
+
+    // The game ended: the winning side and their nickname are passed as arguments
+    gameOver: [ProxySide, string | undefined]
+
+    // The connection closed
+    close: []
+
+    // A side sent something that could not be decoded. It was still forwarded
+    error: [Error]
+}> {
+    /**
+     * A side sent a message.
+     * @event Spectator#message
+     * @param {ProxySide} side The side that sent it.
+     * @param {Message} message The message.
+     */
+
+    /**
+     * Both clients introduced themselves.
+     * @event Spectator#connect
+     * @param {string} host The host's nickname.
+     * @param {string} guest The guest's nickname.
+     */
+
+    /**
+     * Both clients placed their ships, and a game started.
+     * @event Spectator#begin
+     */
+
+    /**
+     * A shot was answered.
+     * @event Spectator#shot
+     * @param {SpectatedShot} shot The shot and its answer.
+     */
+
+    /**
+     * A side sent a chat message.
+     * @event Spectator#chat
+     * @param {ProxySide} side The side that sent it.
+     * @param {ChatMessage} message The chat message.
+     */
+
+    /**
+     * The game ended.
+     * @event Spectator#gameOver
+     * @param {ProxySide} winner The side that won.
+     * @param {string} [nickname] The winner's nickname.
+     */
+
+    /**
+     * The connection closed.
+     * @event Spectator#close
+     */
+
+    /**
+     * A side sent something that could not be decoded. The bytes were still forwarded unchanged.
+     * @event Spectator#error
+     * @param {ProtocolError} err Why the message was refused.
+     */
+
+    /**
+     * Each side's nickname, once it has been sent.
+     */
+    nicknames: Partial<Record<ProxySide, string>> = {};
+
+    /**
+     * The options the host sent, or KNavalBattle's defaults until then.
+     */
+    gameOptions: GameOptions = structuredClone(DEFAULT_GAME_OPTIONS);
+
+    /**
+     * Each side's waters, as revealed by the other side's shots this game.
+     */
+    boards: Record<ProxySide, OpponentBoard>;
+
+    /**
+     * Every answered shot this game.
+     */
+    shots: SpectatedShot[] = [];
+
+    /**
+     * Every message either side sent, from the host's point of view.
+     */
+    messages: RecordedMessage[] = [];
+
+    #decoders: Record<ProxySide, MessageDecoder>;
+    #pending: Partial<Record<ProxySide, MoveMessage>> = {};
+    #begun = new Set<ProxySide>();
+    #started = Date.now();
+
+    constructor() {
+        super();
+
+        this.boards = { host: new OpponentBoard(this.gameOptions), guest: new OpponentBoard(this.gameOptions) }
+        this.#decoders = { host: this.#decoder("host"), guest: this.#decoder("guest") }
+    }
+
+    /**
+     * Feed data one side sent into the spectator.
+     * @param {ProxySide} side The side that sent it.
+     * @param {Buffer | string} chunk The data, as sent.
+     */
+    write(side: ProxySide, chunk: Buffer | string) {
+        this.#decoders[side].write(chunk)
+    }
+
+    /**
+     * The game so far, as a recording made by the host.
+     */
+    toRecording(): Recording {
+        return {
+            version: RECORDING_VERSION,
+            startedAt: new Date(this.#started).toISOString(),
+            host: true,
+            nickname: this.nicknames.host ?? "",
+            opponent: this.nicknames.guest,
+            gameOptions: this.gameOptions,
+            messages: [...this.messages]
+        }
+    }
+
+    /**
+     * Stop watching, e.g. once the connection has closed.
+     */
+    end() {
+        this.#decoders.host.reset()
+        this.#decoders.guest.reset()
+
+        this.emit('close')
+    }
+
+    #decoder(side: ProxySide): MessageDecoder {
+        const decoder = new MessageDecoder(() => this.gameOptions);
+
+        decoder.on('message', (message, xmlStr) => this.#handleMessage(side, message, xmlStr))
+        decoder.on('error', (err) => {
+            if (this.listenerCount('error')) this.emit('error', err)
+        })
+
+        return decoder
+    }
+
+    #handleMessage(side: ProxySide, message: Message, xmlStr: string) {
+        this.messages.push({ direction: side == "host" ? "send" : "receive", time: Date.now() - this.#started, xml: xmlStr })
+        this.emit('message', side, message)
+
+        if (message instanceof GameOptionsMessage && side == "host") {
+            this.gameOptions = message.toGameOptions()
+
+            return this.#reset()
+        }
+
+        if (message instanceof NickMessage) {
+            this.nicknames[side] = message.nickname
+
+            // The guest answers the host's nickname with its own, ending the handshake.
+            if (side == "guest") this.emit('connect', this.nicknames.host ?? "", message.nickname)
+            return
+        }
+
+        if (message instanceof ChatMessage) return this.emit('chat', side, message)
+
+        if (message instanceof BeginMessage) {
+            // The first Begin of a game: clear the last one's boards.
+            if (!this.#begun.size) this.#reset()
+
+            this.#begun.add(side)
+
+            if (this.#begun.size == 2) {
+                this.#begun.clear()
+                this.emit('begin')
+            }
+            return
+        }
+
+        if (message instanceof MoveMessage) {
+            this.#pending[side] = message
+            return
+        }
+
+        if (message instanceof NotificationMessage) {
+            const shooter = other(side);
+            const move = this.#pending[shooter];
+
+            if (!move || move.x !== message.x || move.y !== message.y) return
+
+            delete this.#pending[shooter]
+            this.boards[side].record(message)
+
+            const shot: SpectatedShot = {
+                side: shooter,
+                nickname: this.nicknames[shooter],
+                move,
+                answer: message,
+                number: this.shots.length + 1
+            };
+
+            this.shots.push(shot)
+            return this.emit('shot', shot)
+        }
+
+        // The loser sends game over.
+        if (message instanceof GameOverMessage) {
+            const winner = other(side);
+
+            return this.emit('gameOver', winner, this.nicknames[winner])
+        }
+    }
+
+    #reset() {
+        this.boards = { host: new OpponentBoard(this.gameOptions), guest: new OpponentBoard(this.gameOptions) }
+        this.shots = []
+        this.#pending = {}
+    }
+}
+
+/**
+ * A man-in-the-middle between two KNavalBattle clients, which lets their games be watched without changing them.
+ *
+ * The guest connects to the proxy instead of the host, and the proxy connects to the host. Bytes are forwarded unchanged both ways,
+ * and decoded on the side by a {@link Spectator} for every connection.
+ * @extends {EventEmitter}
+ * @example ```ts
+ * const proxy = new SpectatorProxy({ host: "192.168.1.20", port: 54321 }, { recordings: "./games" });
+ *
+ * proxy.on("spectate", (spectator) => {
+ *     spectator.on("shot", (shot) => console.log(`${shot.nickname} fired at (${shot.move.x}, ${shot.move.y}): ${shot.answer.fieldState}`));
+ * });
+ *
+ * await proxy.listen(54322); // The guest uses "Connect to game" with this port
+ * ```
+ */
+export class SpectatorProxy extends EventEmitter<{
+    // A guest connected, and its game with the host is being watched
+    spectate: [Spectator]
+
+    // A recording was written, its path is passed as argument
+    recorded: [string]
+
+    // A connection, the server or writing a recording failed
+    error: [Error]
+}> {
+    /**
+     * A guest connected, and its game with the host is being watched.
+     * @event SpectatorProxy#spectate
+     * @param {Spectator} spectator Watches the game.
+     */
+
+    /**
+     * A recording was written, once its connection closed.
+     * @event SpectatorProxy#recorded
+     * @param {string} path Where the recording was written.
+     */
+
+    /**
+     * A connection, the server or writing a recording failed.
+     * @event SpectatorProxy#error
+     * @param {Error} err The error that occurred.
+     */
+
+    #server: Server | undefined;
+    #sockets = new Set<Socket>();
+
+    /**
+     * @param {object} target The host the guests are forwarded to.
+     * @param {number} target.port The host's port.
+     * @param {string} target.host The host's IP address.
+     * @param {SpectatorProxyOptions} [options]
+     */
+    constructor(public target: { port: number, host: string }, public options: SpectatorProxyOptions = {}) {
+        super();
+    }
+
+    /**
+     * Start accepting guests.
+     * @param {number} port The port to listen on
+     * @param {string} [host] The IP address to listen on
+     * @returns {Promise<void>} Resolves once the proxy is listening, or rejects if it cannot listen, e.g. because the port is in use.
+     */
+    listen(port: number, host?: string): Promise<void> {
+        if (this.#server) throw new Error('proxy is already listening')
+
+        const server = createServer((guest) => this.#proxy(guest));
+
+        server.on('error', (err) => this.#emitError(err))
+        this.#server = server
+
+        return new Promise((resolve, reject) => {
+            const onError = (err: Error) => {
+                this.#server = undefined
+                reject(err)
+            };
+
+            server.once('error', onError)
+            server.listen(port, host, () => {
+                server.off('error', onError)
+                resolve()
+            })
+        })
+    }
+
+    /**
+     * Stop accepting guests and close every proxied connection.
+     */
+    close() {
+        this.#server?.close()
+        this.#server = undefined
+
+        for (const socket of this.#sockets) socket.destroy()
+    }
+
+    #proxy(guest: Socket) {
+        const host = createConnection(this.target);
+        const spectator = new Spectator();
+        let closed = false;
+
+        for (const socket of [guest, host]) {
+            this.#sockets.add(socket)
+            socket.setNoDelay(true)
+            socket.on('error', (err) => this.#emitError(err))
+            socket.on('close', () => {
+                this.#sockets.delete(socket)
+
+                // Either side leaving ends the other's connection too.
+                guest.destroy()
+                host.destroy()
+
+                if (closed) return
+                closed = true
+
+                spectator.end()
+                this.#record(spectator)
+            })
+        }
+
+        guest.on('data', (chunk: Buffer) => spectator.write("guest", chunk))
+        host.on('data', (chunk: Buffer) => spectator.write("host", chunk))
+
+        guest.pipe(host)
+        host.pipe(guest)
+
+        this.emit('spectate', spectator)
+    }
+
+    #record(spectator: Spectator) {
+        if (this.options.recordings === undefined || !spectator.messages.length) return
+
+        const recording = spectator.toRecording();
+        const name = `${recording.startedAt.replace(/[:.]/g, '-')}-${recording.nickname}-vs-${recording.opponent ?? 'unknown'}`.replace(/[^\w.-]/g, '_');
+        const path = join(this.options.recordings, `${name}.jsonl`);
+
+        writeFile(path, serializeRecording(recording)).then(() => this.emit('recorded', path), (err: Error) => this.#emitError(err))
+    }
+
+    /**
+     * Report an error, without throwing when nobody is listening.
+     */
+    #emitError(err: Error) {
+        if (this.listenerCount('error')) this.emit('error', err)
+    }
+}
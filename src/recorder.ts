@@ -0,0 +1,203 @@
+import type { GameOptions, NavalClient } from "./client.js";
+import type { Fleet, Orientation } from "./fleet.js";
+import type { Message } from "./message.js";
+import type { Direction } from "./state.js";
+
+/**
+ * The version of the recording format written by {@link GameRecorder}.
+ */
+export const RECORDING_VERSION = 1;
+
+/**
+ * A message sent or received during a recorded game.
+ */
+export type RecordedMessage = {
+    /**
+     * Whether this client sent the message or received it from the other client.
+     */
+    direction: Direction,
+
+    /**
+     * Milliseconds since the recording started.
+     */
+    time: number,
+
+    /**
+     * The message's raw XML, exactly as it was sent or received.
+     */
+    xml: string
+}
+
+/**
+ * Where one of this client's ships was placed.
+ */
+export type RecordedShip = {
+    name: string,
+    x: number,
+    y: number,
+    orientation: Orientation
+}
+
+/**
+ * Everything needed to reproduce a game.
+ *
+ * As JSON, this is a single object. As JSON Lines, the first line holds every field except `messages`,
+ * and each following line holds one {@link RecordedMessage}, in the order they were sent or received.
+ * @example ```jsonl
+ * {"version":1,"startedAt":"2024-05-01T12:00:00.000Z","host":true,"nickname":"Ann","opponent":"Bob","gameOptions":{...},"fleet":[...]}
+ * {"direction":"send","time":0,"xml":"<!DOCTYPE kmessage>\n<kmessage>...</kmessage>"}
+ * {"direction":"receive","time":12,"xml":"<!DOCTYPE kmessage>\n<kmessage>...</kmessage>"}
+ * ```
+ */
+export type Recording = {
+    /**
+     * The version of the format, currently always {@link RECORDING_VERSION}.
+     */
+    version: number,
+
+    /**
+     * When the recording started, as an ISO 8601 date.
+     */
+    startedAt: string,
+
+    /**
+     * Whether this client hosted the game.
+     */
+    host: boolean,
+
+    /**
+     * This client's nickname.
+     */
+    nickname: string,
+
+    /**
+     * The other client's nickname, if the handshake completed.
+     */
+    opponent?: string,
+
+    gameOptions: GameOptions,
+
+    /**
+     * This client's ships in the most recent game, if a fleet was attached when it began.
+     */
+    fleet?: RecordedShip[],
+
+    messages: RecordedMessage[]
+}
+
+/**
+ * Records every message a client sends and receives, so a game can be reproduced with {@link GameReplayer}.
+ *
+ * Create one before the client connects to capture the handshake too.
+ * @example ```ts
+ * const recorder = new GameRecorder(client);
+ *
+ * client.on("gameOver", () => fs.writeFileSync("game.jsonl", recorder.toJSONL()));
+ * ```
+ */
+export class GameRecorder {
+    /**
+     * Every message sent and received so far.
+     */
+    messages: RecordedMessage[] = [];
+
+    /**
+     * This client's ships in the most recent game.
+     */
+    fleet?: RecordedShip[];
+
+    #started = Date.now();
+    #onRaw = (xmlStr: string) => this.#record("receive", xmlStr);
+    #onSent = (_message: Message, xmlStr: string) => this.#record("send", xmlStr);
+    #onBegin = () => {
+        if (this.client.fleet) this.fleet = recordFleet(this.client.fleet)
+    };
+
+    constructor(public client: NavalClient) {
+        client.on('raw', this.#onRaw)
+        client.on('sent', this.#onSent)
+        client.on('begin', this.#onBegin)
+    }
+
+    /**
+     * Stop recording the client.
+     */
+    detach() {
+        this.client.off('raw', this.#onRaw)
+        this.client.off('sent', this.#onSent)
+        this.client.off('begin', this.#onBegin)
+    }
+
+    /**
+     * The recording so far.
+     */
+    toJSON(): Recording {
+        return {
+            version: RECORDING_VERSION,
+            startedAt: new Date(this.#started).toISOString(),
+            host: this.client.isHost,
+            nickname: this.client.nickname,
+            opponent: this.client.opponent?.nickname,
+            gameOptions: this.client.gameOptions,
+            fleet: this.fleet,
+            messages: [...this.messages]
+        }
+    }
+
+    /**
+     * The recording so far, in the JSON Lines format described by {@link Recording}.
+     */
+    toJSONL(): string {
+        return serializeRecording(this.toJSON())
+    }
+
+    #record(direction: Direction, xml: string) {
+        this.messages.push({ direction, time: Date.now() - this.#started, xml })
+    }
+}
+
+/**
+ * Describe where a fleet's ships are placed, e.g. to store them in a {@link Recording}.
+ * @param {Fleet} fleet The fleet to describe.
+ */
+export function recordFleet(fleet: Fleet): RecordedShip[] {
+    return fleet.ships.map(ship => ({
+        name: ship.definition.name,
+        x: ship.x,
+        y: ship.y,
+        orientation: ship.orientation
+    }))
+}
+
+/**
+ * Write a recording in the JSON Lines format described by {@link Recording}.
+ * @param {Recording} recording The recording to write.
+ */
+export function serializeRecording(recording: Recording): string {
+    const { messages, ...header } = recording;
+
+    return [header, ...messages].map(line => JSON.stringify(line) + '\n').join('')
+}
+
+/**
+ * Read a recording written as JSON or JSON Lines.
+ * @param {string} text The contents of the recording.
+ * @throws {Error} If the text is not a recording, or uses an unknown version of the format.
+ */
+export function parseRecording(text: string): Recording {
+    let recording: Recording;
+
+    try {
+        recording = { messages: [], ...JSON.parse(text) };
+    } catch {
+        // Not a single JSON document, so it must be JSON Lines.
+        const [header, ...messages] = text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+        recording = { ...header, messages };
+    }
+
+    if (recording.version !== RECORDING_VERSION) throw new Error(`unsupported recording version ${recording.version}`)
+    if (!Array.isArray(recording.messages)) throw new Error('recording has no messages')
+
+    return recording
+}
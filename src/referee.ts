@@ -0,0 +1,305 @@
+import EventEmitter from "node:events";
+import type { NavalClient, Player } from "./client.js";
+import { GameOverMessage, NotificationMessage, type Message } from "./message.js";
+import { CellState, OpponentBoard } from "./opponent.js";
+
+/**
+ * The rules a {@link Referee} checks the other client's answers against.
+ */
+export type RefereeRule =
+    /** A sunk ship's co-ordinates are not a straight line. */
+    | "sink-shape"
+    /** A sunk ship's co-ordinates do not include the shot that sank it. */
+    | "sink-range"
+    /** A sunk ship covers cells that were never hit. */
+    | "sink-unhit"
+    /** A sunk ship's size does not match any ship still afloat. */
+    | "sink-size"
+    /** A sunk ship overlaps one that sank earlier. */
+    | "overlap"
+    /** Ships touch, but the game does not allow adjacent ships. */
+    | "adjacent"
+    /** An answer arrived for a co-ordinate that was already answered. */
+    | "repeat-answer"
+    /** The remaining ships cannot fit in the cells that have not been shot at. */
+    | "impossible-fleet"
+    /** Game over arrived while ships were still afloat. */
+    | "early-game-over"
+    /** The game ended with hits that never became a sunk ship. */
+    | "unsunk-hits";
+
+/**
+ * Something the other client did that breaks the rules.
+ */
+export type Violation = {
+    /**
+     * `violation` when the other client certainly broke the rules, `suspicious` when it is merely unlikely.
+     */
+    severity: "violation" | "suspicious",
+
+    /**
+     * The rule that was broken.
+     */
+    rule: RefereeRule,
+
+    /**
+     * A description of what happened.
+     */
+    message: string,
+
+    /**
+     * The shot being answered, if any.
+     */
+    shot?: [number, number]
+}
+
+/**
+ * A summary of a game, emitted when it ends.
+ */
+export type RefereeReport = {
+    /**
+     * The other client's nickname.
+     */
+    opponent?: string,
+
+    /**
+     * The nickname of the player who won.
+     */
+    winner?: string,
+
+    /**
+     * How many of this client's shots were answered.
+     */
+    shots: number,
+
+    /**
+     * Every rule broken during the game, in order.
+     */
+    violations: Violation[],
+
+    /**
+     * `cheating` if any rule was certainly broken, `suspicious` if something was merely unlikely, otherwise `clean`.
+     */
+    verdict: "clean" | "suspicious" | "cheating"
+}
+
+/**
+ * Checks the other client's answers to this client's shots against the protocol and the game's options.
+ *
+ * Opt in by creating one for a client. The referee only watches: it never changes what the client does.
+ * @extends {EventEmitter}
+ * @example ```ts
+ * const referee = new Referee(client);
+ *
+ * referee.on("violation", (violation) => console.warn(violation.message));
+ * referee.on("report", (report) => tournamentLog.write(JSON.stringify(report)));
+ * ```
+ */
+export class Referee extends EventEmitter<{
+    // The other client certainly broke the rules
+    violation: [Violation]
+
+    // The other client did something unlikely
+    suspicious: [Violation]
+
+    // The game ended: a summary is passed as argument
+    report: [RefereeReport]
+}> {
+    /**
+     * The other client certainly broke the rules.
+     * @event Referee#violation
+     * @param {Violation} violation What happened.
+     */
+
+    /**
+     * The other client did something unlikely.
+     * @event Referee#suspicious
+     * @param {Violation} violation What happened.
+     */
+
+    /**
+     * The game ended.
+     * @event Referee#report
+     * @param {RefereeReport} report A summary of the game.
+     */
+
+    /**
+     * Every rule broken so far this game.
+     */
+    violations: Violation[] = [];
+
+    #board: OpponentBoard;
+    #shots = 0;
+    #onMessage = (message: Message) => this.#check(message);
+    #onBegin = () => this.reset();
+    #onGameOver = (winner: Player) => this.#finish(winner);
+
+    constructor(public client: NavalClient) {
+        super();
+
+        this.#board = new OpponentBoard(client.gameOptions)
+
+        client.on('message', this.#onMessage)
+        client.on('begin', this.#onBegin)
+        client.on('restart', this.#onBegin)
+        client.on('gameOver', this.#onGameOver)
+    }
+
+    /**
+     * Stop watching the client.
+     */
+    detach() {
+        this.client.off('message', this.#onMessage)
+        this.client.off('begin', this.#onBegin)
+        this.client.off('restart', this.#onBegin)
+        this.client.off('gameOver', this.#onGameOver)
+    }
+
+    /**
+     * Forget the current game, e.g. when a new one begins.
+     */
+    reset() {
+        this.#board = new OpponentBoard(this.client.gameOptions)
+        this.#shots = 0
+        this.violations = []
+    }
+
+    /**
+     * Summarise the game so far.
+     */
+    report(winner?: Player): RefereeReport {
+        return {
+            opponent: this.client.opponent?.nickname,
+            winner: winner?.nickname,
+            shots: this.#shots,
+            violations: [...this.violations],
+            verdict: this.violations.some(violation => violation.severity == "violation") ? "cheating"
+                : this.violations.length ? "suspicious"
+                : "clean"
+        }
+    }
+
+    #check(message: Message) {
+        if (message instanceof NotificationMessage) return this.#checkNotification(message)
+
+        if (message instanceof GameOverMessage && !this.#board.cleared) {
+            this.#flag("violation", "early-game-over", `game over arrived with ${this.#board.remainingShips().map(ship => `${ship.number} ${ship.number == 1 ? ship.name : ship.plural}`).join(', ')} still afloat`)
+        }
+    }
+
+    #checkNotification(notification: NotificationMessage) {
+        const shot: [number, number] = [notification.x, notification.y];
+        const board = this.#board;
+
+        if (board.cellState(...shot) !== CellState.Unknown && board.cellState(...shot) !== CellState.Impossible) {
+            return this.#flag("suspicious", "repeat-answer", `(${shot}) was already answered`, shot)
+        }
+
+        this.#shots++
+
+        if (notification.fieldState !== "Miss" && board.cellState(...shot) == CellState.Impossible) {
+            this.#flag("violation", "adjacent", `(${shot}) was hit, but it touches a sunk ship`, shot)
+        }
+
+        if (notification.fieldState == "Sink") this.#checkSink(notification, shot)
+
+        board.record(notification)
+
+        if (notification.fieldState == "Miss") this.#checkFleetFits(shot)
+    }
+
+    #checkSink(notification: NotificationMessage, shot: [number, number]) {
+        const [[xStart, yStart], [xStop, yStop]] = notification.sinkCoordinates!;
+        const board = this.#board;
+
+        if (xStart !== xStop && yStart !== yStop) {
+            return this.#flag("violation", "sink-shape", `sunk ship from (${xStart},${yStart}) to (${xStop},${yStop}) is not a straight line`, shot)
+        }
+
+        const cells: [number, number][] = [];
+
+        for (let x = Math.min(xStart, xStop); x <= Math.max(xStart, xStop); x++) {
+            for (let y = Math.min(yStart, yStop); y <= Math.max(yStart, yStop); y++) cells.push([x, y])
+        }
+
+        if (!cells.some(([x, y]) => x == shot[0] && y == shot[1])) {
+            this.#flag("violation", "sink-range", `sunk ship from (${xStart},${yStart}) to (${xStop},${yStop}) does not include the shot`, shot)
+        }
+
+        for (const [x, y] of cells) {
+            if (x == shot[0] && y == shot[1]) continue
+
+            const state = board.cellState(x, y);
+
+            if (state == CellState.Sunk) {
+                this.#flag("violation", "overlap", `sunk ship overlaps an earlier one at (${x},${y})`, shot)
+            } else if (state !== CellState.Hit) {
+                this.#flag("violation", "sink-unhit", `sunk ship covers (${x},${y}), which was never hit`, shot)
+            }
+        }
+
+        if (!board.remainingShips().some(ship => ship.size == cells.length)) {
+            this.#flag("violation", "sink-size", `no ship of size ${cells.length} is still afloat`, shot)
+        }
+
+        if (!this.client.gameOptions.adjacentShips) {
+            const touching = cells.some(([x, y]) => [-1, 0, 1].some(dx => [-1, 0, 1].some(dy =>
+                board.inBounds(x + dx, y + dy)
+                && board.cellState(x + dx, y + dy) == CellState.Sunk
+                && !cells.some(([cx, cy]) => cx == x + dx && cy == y + dy)
+            )));
+
+            if (touching) this.#flag("violation", "adjacent", `sunk ship touches an earlier one`, shot)
+        }
+    }
+
+    /**
+     * Check that the ships still afloat fit somewhere that has not been shot at.
+     */
+    #checkFleetFits(shot?: [number, number]) {
+        const board = this.#board;
+        const open = board.candidateCells().length + board.openHits().length;
+        const needed = board.remainingShips().reduce((total, ship) => total + ship.number * ship.size, 0);
+        const stranded = board.remainingShips().find(ship => !this.#fits(ship.size));
+
+        if (needed > open) {
+            this.#flag("violation", "impossible-fleet", `${needed} cells of ships are still afloat, but only ${open} cells are left`, shot)
+        } else if (stranded) {
+            this.#flag("violation", "impossible-fleet", `there is no room left for a ${stranded.name}`, shot)
+        }
+    }
+
+    #fits(size: number): boolean {
+        const { boardWidth, boardHeight } = this.client.gameOptions;
+        const open = (x: number, y: number) => [CellState.Unknown, CellState.Hit].includes(this.#board.cellState(x, y));
+
+        for (let y = 0; y < boardHeight; y++) {
+            for (let x = 0; x < boardWidth; x++) {
+                for (const [dx, dy] of [[1, 0], [0, 1]] as const) {
+                    if (x + dx * (size - 1) >= boardWidth || y + dy * (size - 1) >= boardHeight) continue
+                    if (Array.from({ length: size }, (_, i) => open(x + dx * i, y + dy * i)).every(Boolean)) return true
+                }
+            }
+        }
+
+        return false
+    }
+
+    #finish(winner: Player) {
+        if (winner.me && this.#board.openHits().length) {
+            this.#flag("violation", "unsunk-hits", `the game ended with ${this.#board.openHits().length} hit cells that never sank`)
+        }
+
+        this.emit('report', this.report(winner))
+    }
+
+    #flag(severity: Violation["severity"], rule: RefereeRule, message: string, shot?: [number, number]) {
+        const violation: Violation = { severity, rule, message, shot };
+
+        // Only report the fleet not fitting once per game.
+        if (rule == "impossible-fleet" && this.violations.some(earlier => earlier.rule == rule)) return
+
+        this.violations.push(violation)
+        this.emit(severity, violation)
+    }
+}
@@ -0,0 +1,269 @@
+import EventEmitter from "node:events";
+import type { NavalClient, Player, RestartRequest } from "./client.js";
+import { Fleet } from "./fleet.js";
+import {
+    BeginMessage,
+    ChatMessage,
+    GameOverMessage,
+    Message,
+    MoveMessage,
+    NotificationMessage,
+    RestartMessage
+} from "./message.js";
+import { OpponentBoard } from "./opponent.js";
+import type { RecordedMessage, Recording } from "./recorder.js";
+import { createLoopbackPair } from "./transport.js";
+
+/**
+ * Options for {@link GameReplayer.play}.
+ */
+export type ReplayOptions = {
+    /**
+     * Wait between messages as long as the recorded game did, divided by this factor. By default, messages are played as fast as possible.
+     */
+    speed?: number
+}
+
+/**
+ * One shot of a recorded game, and its answer.
+ */
+export type ReplayTurn = {
+    /**
+     * The player who fired.
+     */
+    player: Player,
+
+    move: MoveMessage,
+
+    /**
+     * The answer to the shot, unless the recording ends before it.
+     */
+    answer?: NotificationMessage,
+
+    /**
+     * Milliseconds since the recording started, when the shot was fired.
+     */
+    time: number,
+
+    /**
+     * Every message since the previous turn, up to and including this turn's answer.
+     */
+    messages: RecordedMessage[]
+}
+
+/**
+ * Plays back a {@link Recording} made by {@link GameRecorder}.
+ *
+ * A recording can either be played into a {@link NavalClient}, which then emits the same events as it did during the game,
+ * or stepped through turn by turn.
+ * @extends {EventEmitter}
+ * @example ```ts
+ * const replayer = new GameReplayer(parseRecording(fs.readFileSync("game.jsonl", "utf8")));
+ *
+ * for (let turn = replayer.step(); turn; turn = replayer.step()) {
+ *     console.log(turn.player.nickname, turn.move.x, turn.move.y, turn.answer?.fieldState);
+ * }
+ * ```
+ */
+export class GameReplayer extends EventEmitter<{
+    // The client sent something other than what was recorded: the recorded message and what was sent instead are passed as arguments
+    mismatch: [RecordedMessage, Message | undefined]
+}> {
+    /**
+     * While playing into a client, the client sent something other than what was recorded.
+     * @event GameReplayer#mismatch
+     * @param {RecordedMessage} expected The recorded message.
+     * @param {Message} [actual] What the client sent instead, if anything.
+     */
+
+    /**
+     * The results of this client's shots so far, while stepping through.
+     */
+    opponentBoard: OpponentBoard;
+
+    /**
+     * This client's ships and the hits they have taken so far while stepping through, if the recording has a fleet.
+     */
+    fleet?: Fleet;
+
+    /**
+     * The index of the next message to step through.
+     */
+    position = 0;
+
+    constructor(public recording: Recording) {
+        super();
+
+        this.opponentBoard = new OpponentBoard(recording.gameOptions)
+        this.fleet = this.#fleet()
+    }
+
+    /**
+     * Parse one of the recorded messages.
+     * @param {RecordedMessage} entry The recorded message.
+     */
+    parse(entry: RecordedMessage): Message {
+        return Message.fromXML(entry.xml, this.recording.gameOptions)
+    }
+
+    /**
+     * Move to the next shot of the recording, updating {@link opponentBoard} and {@link fleet}.
+     * @returns The next turn, or `undefined` once the recording is over.
+     */
+    step(): ReplayTurn | undefined {
+        const { messages } = this.recording;
+        const start = this.position;
+        let turn: ReplayTurn | undefined;
+
+        while (this.position < messages.length) {
+            const entry = messages[this.position++]!;
+            const message = this.parse(entry);
+
+            // A new game starts with fresh boards.
+            if (message instanceof BeginMessage) this.#reset()
+
+            if (message instanceof MoveMessage) {
+                const me = entry.direction == "send";
+
+                turn = {
+                    player: { me, nickname: (me ? this.recording.nickname : this.recording.opponent) ?? "" },
+                    move: message,
+                    time: entry.time,
+                    messages: []
+                }
+
+                if (!me) this.fleet?.receiveShot(message.x, message.y)
+            }
+
+            if (message instanceof NotificationMessage && turn) {
+                turn.answer = message
+
+                if (turn.player.me) this.opponentBoard.record(message)
+
+                break
+            }
+        }
+
+        if (turn) turn.messages = messages.slice(start, this.position)
+
+        return turn
+    }
+
+    /**
+     * Go back to the start of the recording.
+     */
+    rewind() {
+        this.position = 0
+        this.#reset()
+    }
+
+    /**
+     * Play the recording into a client over an in-memory connection. The replayer plays the other client,
+     * and makes the client send what it sent during the recorded game.
+     *
+     * Messages the client sends by itself, like its handshake and, with a fleet attached, its answers to shots, are checked against the recording.
+     * Everything else, like its shots, is sent by calling the client's methods, so the client should not be controlled by anything else during the replay.
+     * If the client has no fleet, the recorded fleet is attached once it connects.
+     * @param {NavalClient} client A disconnected client to play the recording into.
+     * @param {ReplayOptions} [options]
+     * @returns {Promise<void>} Resolves once every message has been played and the connection has closed.
+     */
+    async play(client: NavalClient, options: ReplayOptions = {}): Promise<void> {
+        const [theirs, ours] = createLoopbackPair();
+        const sent: Message[] = [];
+        let restartRequest: RestartRequest | undefined;
+
+        const onSent = (message: Message) => sent.push(message);
+        const onRestartRequested = (request: RestartRequest) => restartRequest = request;
+        const onConnect = () => {
+            const fleet = this.#fleet();
+
+            if (!client.fleet && fleet) client.attachFleet(fleet)
+        };
+
+        if (this.recording.host) client.gameOptions = this.recording.gameOptions
+
+        client.on('sent', onSent)
+        client.on('restartRequested', onRestartRequested)
+        client.on('connect', onConnect)
+
+        // Errors are reported by the client itself, and as mismatches.
+        client.open(ours, { host: this.recording.host }).catch(() => { })
+
+        let time = 0;
+
+        try {
+            for (const entry of this.recording.messages) {
+                if (options.speed) await new Promise(resolve => setTimeout(resolve, (entry.time - time) / options.speed!))
+                time = entry.time
+
+                if (entry.direction == "receive") {
+                    theirs.write(entry.xml)
+                    await settle()
+                    continue
+                }
+
+                await settle()
+
+                const expected = this.parse(entry);
+
+                if (!sent.length) this.#drive(client, expected, restartRequest)
+                if (expected instanceof RestartMessage) restartRequest = undefined
+
+                const actual = sent.shift();
+
+                if (actual?.type !== expected.type) this.emit('mismatch', entry, actual)
+            }
+        } finally {
+            client.off('sent', onSent)
+            client.off('restartRequested', onRestartRequested)
+            client.off('connect', onConnect)
+        }
+
+        await new Promise<void>(resolve => {
+            ours.once('close', resolve)
+            theirs.end()
+        })
+    }
+
+    /**
+     * Make the client send a recorded message that it would not send by itself.
+     */
+    #drive(client: NavalClient, message: Message, restartRequest?: RestartRequest) {
+        try {
+            if (message instanceof ChatMessage) client.sendChatMessage(message.text)
+            else if (message instanceof BeginMessage) client.sendBegin()
+            else if (message instanceof MoveMessage) client.sendFireAt([message.x, message.y]).catch(() => { })
+            else if (message instanceof NotificationMessage) client.sendMoveResponse(message)
+            else if (message instanceof GameOverMessage) client.sendGameOver()
+            else if (message instanceof RestartMessage) {
+                if (restartRequest) restartRequest.accept()
+                else client.requestRestart()
+            }
+        } catch {
+            // Reported as a mismatch, as nothing was sent.
+        }
+    }
+
+    #fleet(): Fleet | undefined {
+        if (!this.recording.fleet) return undefined
+
+        const fleet = new Fleet(this.recording.gameOptions);
+
+        for (const ship of this.recording.fleet) fleet.place(ship.name, ship.x, ship.y, ship.orientation)
+
+        return fleet
+    }
+
+    #reset() {
+        this.opponentBoard = new OpponentBoard(this.recording.gameOptions)
+        this.fleet?.reset()
+    }
+}
+
+/**
+ * Wait for messages written to an in-memory connection to be delivered and answered.
+ */
+function settle(): Promise<void> {
+    return new Promise(resolve => setImmediate(() => setImmediate(resolve)))
+}
@@ -0,0 +1,294 @@
+import type { PlacementPolicy } from "./bot.js";
+import { DEFAULT_GAME_OPTIONS, type GameOptions } from "./client.js";
+import type { Fleet } from "./fleet.js";
+import { MoveMessage, type NotificationMessage } from "./message.js";
+import { CellState, OpponentBoard } from "./opponent.js";
+import { seededRandom, type RandomSource, type TargetingStrategy } from "./targeting.js";
+
+/**
+ * One of the two players of a simulated game.
+ */
+export type SimulatedSide = "a" | "b";
+
+/**
+ * A shot fired during a simulated game.
+ */
+export type SimulatedMove = {
+    /**
+     * The player who fired.
+     */
+    side: SimulatedSide,
+
+    /**
+     * Where the shot landed.
+     */
+    position: [number, number],
+
+    /**
+     * The answer to the shot, as the other player's fleet gave it.
+     */
+    notification: NotificationMessage
+}
+
+/**
+ * The outcome of a simulated game.
+ */
+export type SimulationResult = {
+    /**
+     * The player who sank the other's fleet.
+     */
+    winner: SimulatedSide,
+
+    /**
+     * How many shots each player fired.
+     */
+    shots: Record<SimulatedSide, number>,
+
+    /**
+     * Every shot, in the order they were fired.
+     */
+    moves: SimulatedMove[]
+}
+
+/**
+ * Options for {@link simulateGame}.
+ */
+export type SimulationOptions = {
+    /**
+     * The player who fires first, as if they had sent Begin first. Defaults to `"a"`.
+     */
+    first?: SimulatedSide
+}
+
+/**
+ * A player taking part in {@link runSimulations}. Both functions are called again for every game.
+ */
+export type SimulatedPlayer = {
+    /**
+     * The name to report the player's results under.
+     */
+    name: string,
+
+    /**
+     * Builds the player's fleet, using `random` for anything random so that games can be reproduced.
+     */
+    placement: (gameOptions: GameOptions, random: RandomSource) => Fleet,
+
+    /**
+     * Creates the player's targeting strategy, using `random` for anything random.
+     */
+    targeting: (random: RandomSource) => TargetingStrategy
+}
+
+/**
+ * Options for {@link runSimulations}.
+ */
+export type BatchOptions = {
+    /**
+     * How many games to play.
+     */
+    games: number,
+
+    /**
+     * The seed of the first game. Game `i` is played with the seed `seed + i`. Defaults to `1`.
+     */
+    seed?: number,
+
+    /**
+     * The options every game is played with. Defaults to KNavalBattle's.
+     */
+    gameOptions?: GameOptions,
+
+    /**
+     * Whether the players take turns firing first, starting with `a`. Defaults to `true`.
+     */
+    alternateFirst?: boolean
+}
+
+/**
+ * The results of {@link runSimulations}.
+ */
+export type BatchReport = {
+    games: number,
+    seed: number,
+
+    /**
+     * Each player's name.
+     */
+    names: Record<SimulatedSide, string>,
+
+    /**
+     * How many games each player won.
+     */
+    wins: Record<SimulatedSide, number>,
+
+    /**
+     * The share of games each player won, from 0 to 1.
+     */
+    winRate: Record<SimulatedSide, number>,
+
+    /**
+     * The average number of shots each player fired in the games they won.
+     */
+    averageShotsToWin: Record<SimulatedSide, number>,
+
+    /**
+     * For each player, how many games they won with each number of shots.
+     */
+    shotsToWin: Record<SimulatedSide, Record<number, number>>
+}
+
+const other = (side: SimulatedSide): SimulatedSide => side == "a" ? "b" : "a";
+
+/**
+ * Play a whole game between two bots in-process, without any clients or sockets.
+ *
+ * The same rules as between two {@link NavalClient}s apply: fleets are checked like {@link NavalClient.attachFleet} does,
+ * players take turns whether they hit or not, every shot is answered with {@link Fleet.respond},
+ * and the game ends as soon as a fleet is defeated.
+ * @param {PlacementPolicy} placementA Builds player `a`'s fleet.
+ * @param {TargetingStrategy} strategyA Picks where player `a` fires.
+ * @param {PlacementPolicy} placementB Builds player `b`'s fleet.
+ * @param {TargetingStrategy} strategyB Picks where player `b` fires.
+ * @param {GameOptions} [gameOptions] The options the game is played with. Defaults to KNavalBattle's.
+ * @param {SimulationOptions} [options]
+ * @throws If a fleet is not legal, or a strategy fires off the board or at the same co-ordinate twice.
+ * @example ```ts
+ * const result = simulateGame(myFleet, new HuntTargetStrategy(), myFleet, new ProbabilityDensityStrategy());
+ *
+ * console.log(`${result.winner} won after ${result.shots[result.winner]} shots`);
+ * ```
+ */
+export function simulateGame(
+    placementA: PlacementPolicy,
+    strategyA: TargetingStrategy,
+    placementB: PlacementPolicy,
+    strategyB: TargetingStrategy,
+    gameOptions: GameOptions = DEFAULT_GAME_OPTIONS,
+    options: SimulationOptions = {}
+): SimulationResult {
+    const fleets = { a: placementA(gameOptions), b: placementB(gameOptions) };
+    const strategies = { a: strategyA, b: strategyB };
+
+    // Each player's view of the other's shipyard.
+    const boards = { a: new OpponentBoard(gameOptions), b: new OpponentBoard(gameOptions) };
+    const shots = { a: 0, b: 0 };
+    const moves: SimulatedMove[] = [];
+
+    fleets.a.check(gameOptions)
+    fleets.b.check(gameOptions)
+
+    let side = options.first ?? "a";
+
+    while (true) {
+        const board = boards[side];
+        const [x, y] = strategies[side].nextTarget(board, gameOptions);
+
+        if (!board.inBounds(x, y)) throw new Error(`player ${side} fired off the board at (${x}, ${y})`)
+
+        const state = board.cellState(x, y);
+
+        if (state !== CellState.Unknown && state !== CellState.Impossible) throw new Error(`player ${side} already fired at (${x}, ${y})`)
+
+        const notification = fleets[other(side)].respond(new MoveMessage(x, y));
+
+        board.record(notification)
+        shots[side]++
+        moves.push({ side, position: [x, y], notification })
+
+        if (fleets[other(side)].defeated) return { winner: side, shots, moves }
+
+        side = other(side)
+    }
+}
+
+/**
+ * Play many seeded games between two bots with {@link simulateGame}, and gather win rates and how many shots wins took.
+ * @param {SimulatedPlayer} a The first player.
+ * @param {SimulatedPlayer} b The second player.
+ * @param {BatchOptions} options
+ * @example ```ts
+ * const report = runSimulations(
+ *     { name: "Hunt", placement: myFleet, targeting: (random) => new HuntTargetStrategy(random) },
+ *     { name: "Density", placement: myFleet, targeting: (random) => new ProbabilityDensityStrategy(random) },
+ *     { games: 1000, seed: 42 }
+ * );
+ *
+ * console.log(formatBatchReport(report));
+ * ```
+ */
+export function runSimulations(a: SimulatedPlayer, b: SimulatedPlayer, options: BatchOptions): BatchReport {
+    const { games, seed = 1, gameOptions = DEFAULT_GAME_OPTIONS, alternateFirst = true } = options;
+    const players = { a, b };
+    const wins = { a: 0, b: 0 };
+    const totalShots = { a: 0, b: 0 };
+    const shotsToWin: BatchReport["shotsToWin"] = { a: {}, b: {} };
+
+    for (let game = 0; game < games; game++) {
+        const random = seededRandom(seed + game);
+        const placement = (side: SimulatedSide): PlacementPolicy => (gameOptions) => players[side].placement(gameOptions, random);
+        const result = simulateGame(
+            placement("a"), a.targeting(random),
+            placement("b"), b.targeting(random),
+            gameOptions,
+            { first: alternateFirst && game % 2 ? "b" : "a" }
+        );
+        const shots = result.shots[result.winner];
+
+        wins[result.winner]++
+        totalShots[result.winner] += shots
+        shotsToWin[result.winner][shots] = (shotsToWin[result.winner][shots] ?? 0) + 1
+    }
+
+    return {
+        games,
+        seed,
+        names: { a: a.name, b: b.name },
+        wins,
+        winRate: { a: games ? wins.a / games : 0, b: games ? wins.b / games : 0 },
+        averageShotsToWin: { a: wins.a ? totalShots.a / wins.a : 0, b: wins.b ? totalShots.b / wins.b : 0 },
+        shotsToWin
+    }
+}
+
+/**
+ * Describe a {@link BatchReport} as text, with a histogram of shots to win in buckets of 10 shots.
+ */
+export function formatBatchReport(report: BatchReport): string {
+    const sides: SimulatedSide[] = ["a", "b"];
+    const width = Math.max(...sides.map(side => report.names[side].length));
+    const lines = [`${report.names.a} vs ${report.names.b}: ${report.games} games from seed ${report.seed}`];
+
+    for (const side of sides) {
+        lines.push(`  ${report.names[side].padEnd(width)}  ${String(report.wins[side]).padStart(String(report.games).length)} wins  ${(report.winRate[side] * 100).toFixed(1).padStart(5)}%  ${report.averageShotsToWin[side].toFixed(1)} shots to win on average`)
+    }
+
+    const buckets = new Map<number, Record<SimulatedSide, number>>();
+
+    for (const side of sides) {
+        for (const [shots, count] of Object.entries(report.shotsToWin[side])) {
+            const bucket = Math.floor(Number(shots) / 10) * 10;
+            const counts = buckets.get(bucket) ?? { a: 0, b: 0 };
+
+            counts[side] += count
+            buckets.set(bucket, counts)
+        }
+    }
+
+    if (!buckets.size) return lines.join("\n")
+
+    const most = Math.max(...[...buckets.values()].flatMap(counts => [counts.a, counts.b]));
+    const bar = (count: number) => "#".repeat(Math.ceil(count / most * 30));
+
+    lines.push("", "Shots to win:")
+
+    for (const [bucket, counts] of [...buckets].sort(([x], [y]) => x - y)) {
+        for (const side of sides) {
+            if (!counts[side]) continue
+
+            lines.push(`  ${`${bucket}-${bucket + 9}`.padStart(7)}  ${report.names[side].padEnd(width)}  ${bar(counts[side])} ${counts[side]}`)
+        }
+    }
+
+    return lines.join("\n")
+}
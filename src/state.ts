@@ -0,0 +1,152 @@
+import { StateError } from "./errors.js";
+import { MessageType } from "./message.js";
+
+/**
+ * The multiple states a game of KNavalBattle can be in.
+ */
+export enum GameState {
+    /**
+     * Client is not connected to another client.
+     */
+    DISCONNECTED,
+
+    /**
+     * One or both clients are setting up their ships.
+     */
+    SHIP_SETUP,
+
+    /**
+     * This client can fire at the other client's shipyard.
+     */
+    FIRE_SHIPS_SELF,
+
+    /**
+     * This client must confirm whether the other client's shot was successful.
+     */
+    AWAIT_RESPONSE_SELF,
+
+    /**
+     * The other client can fire at this client's shipyard.
+     */
+    FIRE_SHIPS_OTHER,
+
+    /**
+     * The other client must confirm whether this client's shot was successful.
+     */
+    AWAIT_RESPONSE_OTHER,
+
+    /**
+     * Game over!
+     */
+    GAME_OVER
+}
+
+/**
+ * Whether a message is being sent by this client or received from the other client.
+ */
+export type Direction = "send" | "receive";
+
+/**
+ * A legal way for a message to move the game from one state to another.
+ */
+export type Transition = {
+    direction: Direction,
+    message: MessageType,
+
+    /**
+     * The states the message is allowed in.
+     */
+    from: GameState[],
+
+    /**
+     * The states the message can lead to. Staying in the same state is only allowed if listed.
+     */
+    to: GameState[] | "same"
+}
+
+const CONNECTED = [
+    GameState.SHIP_SETUP,
+    GameState.FIRE_SHIPS_SELF,
+    GameState.AWAIT_RESPONSE_SELF,
+    GameState.FIRE_SHIPS_OTHER,
+    GameState.AWAIT_RESPONSE_OTHER,
+    GameState.GAME_OVER
+];
+
+/**
+ * Every legal transition between {@link GameState}s, for messages sent and received.
+ *
+ * A Nick both ends the handshake and is answered, so it can be sent once {@link GameState.SHIP_SETUP} is reached.
+ */
+export const TRANSITIONS: readonly Transition[] = [
+    // Handshake
+    { direction: "send", message: MessageType.Header, from: [GameState.DISCONNECTED], to: "same" },
+    { direction: "receive", message: MessageType.Header, from: [GameState.DISCONNECTED], to: "same" },
+    { direction: "send", message: MessageType.GameOptions, from: [GameState.DISCONNECTED], to: "same" },
+    { direction: "receive", message: MessageType.GameOptions, from: [GameState.DISCONNECTED], to: "same" },
+    { direction: "send", message: MessageType.Nick, from: [GameState.DISCONNECTED, GameState.SHIP_SETUP], to: "same" },
+    { direction: "receive", message: MessageType.Nick, from: [GameState.DISCONNECTED], to: [GameState.SHIP_SETUP] },
+    { direction: "send", message: MessageType.Reject, from: [GameState.DISCONNECTED], to: "same" },
+    { direction: "receive", message: MessageType.Reject, from: [GameState.DISCONNECTED], to: "same" },
+
+    // Chat is allowed whenever, and never changes the state
+    { direction: "send", message: MessageType.Chat, from: CONNECTED, to: "same" },
+    { direction: "receive", message: MessageType.Chat, from: [GameState.DISCONNECTED, ...CONNECTED], to: "same" },
+
+    // Whoever sends Begin first fires first
+    { direction: "send", message: MessageType.Begin, from: [GameState.SHIP_SETUP, GameState.GAME_OVER], to: "same" },
+    { direction: "receive", message: MessageType.Begin, from: [GameState.SHIP_SETUP, GameState.GAME_OVER], to: [GameState.FIRE_SHIPS_SELF, GameState.FIRE_SHIPS_OTHER] },
+
+    // Turns
+    { direction: "send", message: MessageType.Move, from: [GameState.FIRE_SHIPS_SELF], to: [GameState.AWAIT_RESPONSE_OTHER] },
+    { direction: "receive", message: MessageType.Move, from: [GameState.FIRE_SHIPS_OTHER], to: [GameState.AWAIT_RESPONSE_SELF] },
+    { direction: "send", message: MessageType.Notification, from: [GameState.AWAIT_RESPONSE_SELF], to: [GameState.FIRE_SHIPS_SELF] },
+    { direction: "receive", message: MessageType.Notification, from: [GameState.AWAIT_RESPONSE_OTHER], to: [GameState.FIRE_SHIPS_OTHER] },
+
+    // The loser sends game over straight after answering the shot that sank its last ship
+    { direction: "send", message: MessageType.GameOver, from: [GameState.FIRE_SHIPS_SELF], to: [GameState.GAME_OVER] },
+    { direction: "receive", message: MessageType.GameOver, from: [GameState.FIRE_SHIPS_OTHER], to: [GameState.GAME_OVER] },
+
+    // A restart can be asked for at any time, and goes back to ship setup once both clients have sent one
+    { direction: "send", message: MessageType.Restart, from: CONNECTED, to: [...CONNECTED] },
+    { direction: "receive", message: MessageType.Restart, from: CONNECTED, to: [...CONNECTED] }
+];
+
+/**
+ * Find the transition a message would take from a state.
+ * @param {Direction} direction Whether the message is being sent or received.
+ * @param {MessageType} message The type of the message.
+ * @param {GameState} from The current state.
+ * @returns The matching transition.
+ * @throws {StateError} If the message is not allowed in this state.
+ */
+export function findTransition(direction: Direction, message: MessageType, from: GameState): Transition {
+    const transition = TRANSITIONS.find(transition =>
+        transition.direction == direction
+        && transition.message == message
+        && transition.from.includes(from)
+    );
+
+    if (!transition) {
+        throw new StateError(`cannot ${direction} ${MessageType[message]} while ${GameState[from]}`, direction, message, from)
+    }
+
+    return transition
+}
+
+/**
+ * Check that a message can move the game from one state to another.
+ * @param {Direction} direction Whether the message is being sent or received.
+ * @param {MessageType} message The type of the message.
+ * @param {GameState} from The current state.
+ * @param {GameState} [to] The state the message leads to, if it changes.
+ * @throws {StateError} If the transition is not in {@link TRANSITIONS}.
+ */
+export function checkTransition(direction: Direction, message: MessageType, from: GameState, to: GameState = from) {
+    const transition = findTransition(direction, message, from);
+    const allowed = transition.to == "same" ? [from] : transition.to;
+
+    if (!allowed.includes(to)) {
+        throw new StateError(`${direction == "send" ? "sending" : "receiving"} ${MessageType[message]} cannot move from ${GameState[from]} to ${GameState[to]}`, direction, message, from, to)
+    }
+}
@@ -0,0 +1,197 @@
+import type { GameOptions } from "./client.js";
+import { CellState, type OpponentBoard } from "./opponent.js";
+
+/**
+ * A source of random numbers in `[0, 1)`, like `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a {@link RandomSource} that always produces the same numbers for the same seed, so that games can be reproduced.
+ * @param {number} seed Any integer.
+ */
+export function seededRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+
+    // mulberry32
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+
+        let t = state;
+
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+/**
+ * Decides where this client should fire next.
+ * @example ```ts
+ * const strategy = new ProbabilityDensityStrategy();
+ *
+ * client.on("canFire", () => {
+ *     client.sendFireAt(strategy.nextTarget(client.opponentBoard, client.gameOptions));
+ * });
+ * ```
+ */
+export interface TargetingStrategy {
+    /**
+     * Pick the next co-ordinate to fire at.
+     * @param {OpponentBoard} board What is known about the other client's shipyard.
+     * @param {GameOptions} gameOptions The options the game is played with.
+     * @returns A co-ordinate that has not been fired at yet.
+     */
+    nextTarget(board: OpponentBoard, gameOptions: GameOptions): [number, number]
+}
+
+/**
+ * Pick one item from a list at random.
+ */
+function pick<T>(items: T[], random: RandomSource): T {
+    if (!items.length) throw new Error('no cells left to fire at')
+
+    return items[Math.floor(random() * items.length)]!
+}
+
+/**
+ * Fires at any co-ordinate that has not been fired at yet, uniformly at random.
+ */
+export class RandomStrategy implements TargetingStrategy {
+    constructor(private random: RandomSource = Math.random) { }
+
+    nextTarget(board: OpponentBoard, gameOptions: GameOptions): [number, number] {
+        return pick(board.candidateCells(), this.random)
+    }
+}
+
+/**
+ * Hunts on a checkerboard pattern spaced by the smallest ship still afloat,
+ * then targets the cells around a hit until its ship sinks.
+ */
+export class HuntTargetStrategy implements TargetingStrategy {
+    constructor(private random: RandomSource = Math.random) { }
+
+    nextTarget(board: OpponentBoard, gameOptions: GameOptions): [number, number] {
+        const targets = this.#targets(board);
+
+        if (targets.length) return pick(targets, this.random)
+
+        const candidates = board.candidateCells();
+        const spacing = Math.min(...board.remainingShips().map(definition => definition.size));
+        const hunt = Number.isFinite(spacing)
+            ? candidates.filter(([x, y]) => (x + y) % spacing == 0)
+            : [];
+
+        return pick(hunt.length ? hunt : candidates, this.random)
+    }
+
+    /**
+     * Find the unknown cells that extend a hit, preferring ones in line with other hits.
+     */
+    #targets(board: OpponentBoard): [number, number][] {
+        const hits = board.openHits();
+        const isUnknown = ([x, y]: [number, number]) => board.inBounds(x, y) && board.cellState(x, y) == CellState.Unknown;
+        const isHit = (x: number, y: number) => board.inBounds(x, y) && board.cellState(x, y) == CellState.Hit;
+        const inLine: [number, number][] = [];
+        const around: [number, number][] = [];
+
+        for (const [x, y] of hits) {
+            for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]] as const) {
+                const cell: [number, number] = [x + dx, y + dy];
+
+                if (!isUnknown(cell)) continue
+
+                around.push(cell)
+
+                if (isHit(x - dx, y - dy)) inLine.push(cell)
+            }
+        }
+
+        return inLine.length ? inLine : around
+    }
+}
+
+/**
+ * Counts every legal placement of each ship still afloat, and fires at the cell covered by the most of them.
+ *
+ * Placements covering a hit are strongly preferred, so that damaged ships are finished off.
+ */
+export class ProbabilityDensityStrategy implements TargetingStrategy {
+    constructor(private random: RandomSource = Math.random) { }
+
+    nextTarget(board: OpponentBoard, gameOptions: GameOptions): [number, number] {
+        const density = this.density(board, gameOptions);
+        const candidates = board.candidateCells();
+        let best: [number, number][] = [];
+        let bestScore = 0;
+
+        for (const [x, y] of candidates) {
+            const score = density[y * gameOptions.boardWidth + x]!;
+
+            if (score > bestScore) {
+                best = [[x, y]]
+                bestScore = score
+            } else if (score == bestScore && score > 0) {
+                best.push([x, y])
+            }
+        }
+
+        return pick(best.length ? best : candidates, this.random)
+    }
+
+    /**
+     * Score every cell by the number of legal placements covering it.
+     * @returns One score per cell, row by row.
+     */
+    density(board: OpponentBoard, gameOptions: GameOptions): number[] {
+        const { boardWidth, boardHeight } = gameOptions;
+        const density: number[] = new Array(boardWidth * boardHeight).fill(0);
+        const targeting = board.openHits().length > 0;
+
+        for (const definition of board.remainingShips()) {
+            for (const [dx, dy] of [[1, 0], [0, 1]] as const) {
+                // A ship of size 1 is the same either way round.
+                if (definition.size == 1 && dy == 1) continue
+
+                for (let y = 0; y + dy * (definition.size - 1) < boardHeight; y++) {
+                    for (let x = 0; x + dx * (definition.size - 1) < boardWidth; x++) {
+                        const cells = Array.from({ length: definition.size }, (_, i): [number, number] => [x + dx * i, y + dy * i]);
+                        const states = cells.map(([cx, cy]) => board.cellState(cx, cy));
+
+                        if (states.some(state => state !== CellState.Unknown && state !== CellState.Hit)) continue
+
+                        const hits = states.filter(state => state == CellState.Hit).length;
+
+                        if (targeting && !hits) continue
+
+                        // Without adjacent ships, a hit just outside the placement belongs to a ship this one would touch.
+                        if (!gameOptions.adjacentShips && this.#touchesHit(board, cells)) continue
+
+                        const weight = definition.number * (1 + hits * 10);
+
+                        for (const [cx, cy] of cells) density[cy * boardWidth + cx]! += weight
+                    }
+                }
+            }
+        }
+
+        return density
+    }
+
+    #touchesHit(board: OpponentBoard, cells: [number, number][]): boolean {
+        return cells.some(([x, y]) => {
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    const nx = x + dx, ny = y + dy;
+
+                    if (!board.inBounds(nx, ny) || cells.some(([cx, cy]) => cx == nx && cy == ny)) continue
+                    if (board.cellState(nx, ny) == CellState.Hit) return true
+                }
+            }
+
+            return false
+        })
+    }
+}
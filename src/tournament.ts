@@ -0,0 +1,670 @@
+import EventEmitter from "node:events";
+import { createServer, type AddressInfo } from "node:net";
+import { GameState, type NavalClient, type Player } from "./client.js";
+import { ProtocolError } from "./errors.js";
+import { MoveMessage } from "./message.js";
+import { Referee } from "./referee.js";
+import { createLoopbackPair, TcpTransport } from "./transport.js";
+
+/**
+ * A bot taking part in a {@link Tournament}.
+ */
+export type TournamentEntrant = {
+    /**
+     * The name the bot's results are reported under. Names must be unique within a tournament.
+     */
+    name: string,
+
+    /**
+     * Creates a disconnected client, ready to play, e.g. driven by a {@link NavalBot}.
+     * Bots must accept restarts for series played with {@link TournamentOptions.series} `"restart"`.
+     */
+    create: () => NavalClient
+}
+
+/**
+ * Options for a {@link Tournament}.
+ */
+export type TournamentOptions = {
+    /**
+     * `round-robin` pairs every bot with every other bot once. `swiss` pairs bots with similar scores for a number of rounds,
+     * avoiding rematches. Defaults to `round-robin`.
+     */
+    format?: "round-robin" | "swiss",
+
+    /**
+     * How many rounds a Swiss tournament lasts. Defaults to enough rounds to find a single winner.
+     */
+    rounds?: number,
+
+    /**
+     * How many games a match lasts at most. A match stops as soon as a bot has won more than half of them. Defaults to 1.
+     */
+    bestOf?: number,
+
+    /**
+     * How the games of a match follow each other: `restart` plays them over one connection using the Restart message,
+     * `reconnect` opens a new connection for every game, swapping host and guest each time. Either way, the bots take turns
+     * firing first. Defaults to `restart`.
+     */
+    series?: "restart" | "reconnect",
+
+    /**
+     * Whether bots play in memory, over a {@link createLoopbackPair}, or over real TCP sockets on `127.0.0.1`. Defaults to `loopback`.
+     */
+    transport?: "loopback" | "tcp",
+
+    /**
+     * How long, in milliseconds, a game may last, handshake included, before it is abandoned. Defaults to 60 seconds.
+     */
+    gameTimeout?: number
+}
+
+/**
+ * One game of a {@link TournamentMatch}.
+ */
+export type TournamentGame = {
+    /**
+     * The id of the match the game was played in.
+     */
+    match: number,
+
+    /**
+     * The name of the bot that hosted the game.
+     */
+    host: string,
+
+    /**
+     * The name of the bot that joined the game.
+     */
+    guest: string,
+
+    /**
+     * The name of the bot that won, unless the game was abandoned.
+     */
+    winner?: string,
+
+    /**
+     * How many shots each bot fired, by name.
+     */
+    shots: Record<string, number>,
+
+    /**
+     * The name of the bot that stalled, when the game took longer than {@link TournamentOptions.gameTimeout}.
+     * The game is awarded to the other bot.
+     */
+    timeout?: string,
+
+    /**
+     * How long the game took, in milliseconds.
+     */
+    duration: number
+}
+
+/**
+ * Two bots paired in a round of a {@link Tournament}.
+ */
+export type TournamentMatch = {
+    /**
+     * A number unique to this match within the tournament.
+     */
+    id: number,
+
+    /**
+     * The round the match was played in, from 1.
+     */
+    round: number,
+
+    /**
+     * The bots' names. The first hosts the match's first game.
+     */
+    players: [string, string],
+
+    /**
+     * How many games each bot won, in the same order as `players`.
+     */
+    score: [number, number],
+
+    /**
+     * The name of the bot that won the match, unless it was drawn.
+     */
+    winner?: string,
+    games: TournamentGame[]
+}
+
+/**
+ * A bot's results in a {@link Tournament}.
+ */
+export type TournamentStanding = {
+    name: string,
+
+    /**
+     * 1 for every match won or bye, and ½ for every match drawn.
+     */
+    points: number,
+    matchesWon: number,
+    matchesLost: number,
+    matchesDrawn: number,
+    gamesWon: number,
+    gamesLost: number,
+
+    /**
+     * The average number of shots the bot needed to win a game, not counting games won on time, or 0 if it won none.
+     */
+    averageShots: number,
+
+    /**
+     * How many games the bot stalled in.
+     */
+    timeouts: number,
+
+    /**
+     * How many times the bot broke the protocol or the rules, as seen by the other bot's client and {@link Referee}.
+     */
+    violations: number
+}
+
+/**
+ * Everything about a {@link Tournament}, as returned by {@link Tournament.toJSON}.
+ */
+export type TournamentReport = {
+    format: NonNullable<TournamentOptions["format"]>,
+    bestOf: number,
+    matches: TournamentMatch[],
+
+    /**
+     * The bots, best first.
+     */
+    standings: TournamentStanding[]
+}
+
+/**
+ * What is counted for a bot as it plays.
+ */
+type Tally = {
+    entrant: TournamentEntrant,
+    points: number,
+    matchesWon: number,
+    matchesLost: number,
+    matchesDrawn: number,
+    gamesWon: number,
+    gamesLost: number,
+    /**
+     * Games the bot won by sinking every ship, and the shots it fired in them.
+     */
+    sinkingWins: number,
+    shots: number,
+    timeouts: number,
+    violations: number,
+
+    /**
+     * How many matches the bot has hosted the first game of, to share hosting fairly.
+     */
+    hosted: number,
+    opponents: Set<string>,
+    byes: number
+}
+
+/**
+ * Two connected clients playing a match.
+ */
+type Table = {
+    clients: [NavalClient, NavalClient],
+    tallies: [Tally, Tally],
+
+    /**
+     * Shots fired by each client this game.
+     */
+    shots: [number, number],
+    referees: Referee[]
+}
+
+/**
+ * How a game ended, by index into a {@link Table}'s clients.
+ */
+type GameResult = {
+    winner?: number,
+
+    /**
+     * The bots that stalled, when the game took too long.
+     */
+    timeout?: number[]
+}
+
+/**
+ * Plays bots against each other, in round-robin or Swiss pairings, and ranks them.
+ *
+ * Matches are played one at a time. Each bot is created afresh for every match, or every game when series reconnect,
+ * and the bots share the hosting of first games as evenly as possible.
+ * @extends {EventEmitter}
+ * @example ```ts
+ * const bot = (name, targeting) => ({
+ *     name,
+ *     create: () => {
+ *         const client = new NavalClient(name);
+ *
+ *         new NavalBot(client, { placement, targeting: targeting(), acceptRestarts: true }).start();
+ *         return client;
+ *     }
+ * });
+ *
+ * const tournament = new Tournament([
+ *     bot("Random", () => new RandomStrategy()),
+ *     bot("Hunt", () => new HuntTargetStrategy()),
+ *     bot("Density", () => new ProbabilityDensityStrategy())
+ * ], { bestOf: 5 });
+ *
+ * await tournament.run();
+ * console.log(tournament.toMarkdown());
+ * ```
+ */
+export class Tournament extends EventEmitter<{
+    // A round is about to be played: its number and matches are passed as arguments
+    round: [number, TournamentMatch[]]
+
+    // A game finished
+    game: [TournamentGame, TournamentMatch]
+
+    // A match finished
+    match: [TournamentMatch]
+}> {
+    /**
+     * A round is about to be played.
+     * @event Tournament#round
+     * @param {number} round The round's number, from 1.
+     * @param {TournamentMatch[]} matches The round's pairings.
+     */
+
+    /**
+     * A game finished.
+     * @event Tournament#game
+     * @param {TournamentGame} game The game's result.
+     * @param {TournamentMatch} match The match it was played in.
+     */
+
+    /**
+     * A match finished.
+     * @event Tournament#match
+     * @param {TournamentMatch} match The match's result.
+     */
+
+    /**
+     * Every match played so far, in order.
+     */
+    matches: TournamentMatch[] = [];
+
+    format: NonNullable<TournamentOptions["format"]>;
+    bestOf: number;
+    #options: Required<Omit<TournamentOptions, "format" | "bestOf" | "rounds">>;
+    #rounds: number;
+    #tallies: Tally[];
+    #matchIds = 0;
+
+    /**
+     * @param {TournamentEntrant[]} entrants The bots taking part. At least two are needed.
+     * @param {TournamentOptions} [options]
+     */
+    constructor(entrants: TournamentEntrant[], options: TournamentOptions = {}) {
+        super();
+
+        if (entrants.length < 2) throw new Error('a tournament needs at least two entrants')
+        if (new Set(entrants.map(entrant => entrant.name)).size !== entrants.length) throw new Error('entrant names must be unique')
+
+        this.format = options.format ?? "round-robin"
+        this.bestOf = options.bestOf ?? 1
+
+        if (!Number.isInteger(this.bestOf) || this.bestOf < 1) throw new Error('bestOf must be a positive integer')
+
+        this.#options = {
+            series: options.series ?? "restart",
+            transport: options.transport ?? "loopback",
+            gameTimeout: options.gameTimeout ?? 60000
+        }
+        this.#rounds = this.format == "swiss"
+            ? options.rounds ?? Math.ceil(Math.log2(entrants.length))
+            : entrants.length % 2 ? entrants.length : entrants.length - 1
+        this.#tallies = entrants.map(entrant => ({
+            entrant,
+            points: 0,
+            matchesWon: 0,
+            matchesLost: 0,
+            matchesDrawn: 0,
+            gamesWon: 0,
+            gamesLost: 0,
+            sinkingWins: 0,
+            shots: 0,
+            timeouts: 0,
+            violations: 0,
+            hosted: 0,
+            opponents: new Set(),
+            byes: 0
+        }))
+    }
+
+    /**
+     * Play every round.
+     * @returns {Promise<TournamentStanding[]>} Resolves with the final standings, best first, or rejects if two bots cannot be connected over TCP.
+     */
+    async run(): Promise<TournamentStanding[]> {
+        for (let round = 1; round <= this.#rounds; round++) {
+            const pairings = this.format == "swiss" ? this.#swissPairings() : this.#roundRobinPairings(round);
+            const matches = pairings.map(pairing => this.#createMatch(round, pairing));
+
+            this.emit('round', round, matches)
+
+            for (const [match, pairing] of matches.map((match, i) => [match, pairings[i]!] as const)) {
+                await this.#playMatch(match, pairing)
+                this.emit('match', match)
+            }
+        }
+
+        return this.standings()
+    }
+
+    /**
+     * Rank the bots: by points, then games won, then fewest average shots to win.
+     */
+    standings(): TournamentStanding[] {
+        return this.#tallies
+            .map((tally): TournamentStanding => ({
+                name: tally.entrant.name,
+                points: tally.points,
+                matchesWon: tally.matchesWon,
+                matchesLost: tally.matchesLost,
+                matchesDrawn: tally.matchesDrawn,
+                gamesWon: tally.gamesWon,
+                gamesLost: tally.gamesLost,
+                averageShots: tally.sinkingWins ? tally.shots / tally.sinkingWins : 0,
+                timeouts: tally.timeouts,
+                violations: tally.violations
+            }))
+            .sort((a, b) => b.points - a.points || b.gamesWon - a.gamesWon || (a.averageShots || Infinity) - (b.averageShots || Infinity) || 0)
+    }
+
+    toJSON(): TournamentReport {
+        return {
+            format: this.format,
+            bestOf: this.bestOf,
+            matches: this.matches,
+            standings: this.standings()
+        }
+    }
+
+    /**
+     * Describe the standings as a Markdown table.
+     */
+    toMarkdown(): string {
+        const rows = this.standings().map((standing, i) => [
+            i + 1,
+            standing.name,
+            standing.points,
+            `${standing.matchesWon}-${standing.matchesLost}-${standing.matchesDrawn}`,
+            `${standing.gamesWon}-${standing.gamesLost}`,
+            standing.averageShots.toFixed(1),
+            standing.timeouts,
+            standing.violations
+        ]);
+
+        return [
+            "| # | Bot | Points | Matches (W-L-D) | Games (W-L) | Avg. shots | Timeouts | Violations |",
+            "|---|-----|-------:|:---------------:|:-----------:|-----------:|---------:|-----------:|",
+            ...rows.map(row => `| ${row.join(" | ")} |`)
+        ].join("\n")
+    }
+
+    /**
+     * Pair bots with the circle method, so that every bot meets every other bot once over all rounds.
+     * With an odd number of bots, one sits out each round.
+     */
+    #roundRobinPairings(round: number): [Tally, Tally][] {
+        const circle: (Tally | undefined)[] = [...this.#tallies];
+
+        if (circle.length % 2) circle.push(undefined)
+
+        // Keep the first bot in place and rotate the others once per round.
+        const rest = circle.slice(1);
+        const turn = (round - 1) % rest.length;
+        const rotated = [circle[0], ...rest.slice(rest.length - turn), ...rest.slice(0, rest.length - turn)];
+        const pairings: [Tally, Tally][] = [];
+
+        for (let i = 0; i < rotated.length / 2; i++) {
+            const a = rotated[i], b = rotated[rotated.length - 1 - i];
+
+            if (a && b) pairings.push([a, b])
+        }
+
+        return pairings
+    }
+
+    /**
+     * Pair bots with the closest scores that have not met yet. With an odd number of bots,
+     * the lowest ranked bot that has not had a bye gets one, which counts as a win.
+     */
+    #swissPairings(): [Tally, Tally][] {
+        const ranked = [...this.#tallies].sort((a, b) => b.points - a.points || b.gamesWon - a.gamesWon);
+        const pairings: [Tally, Tally][] = [];
+
+        if (ranked.length % 2) {
+            const bye = [...ranked].reverse().sort((a, b) => a.byes - b.byes)[0]!;
+
+            bye.byes++
+            bye.points++
+            ranked.splice(ranked.indexOf(bye), 1)
+        }
+
+        while (ranked.length) {
+            const a = ranked.shift()!;
+            const index = ranked.findIndex(b => !a.opponents.has(b.entrant.name));
+            const [b] = ranked.splice(index === -1 ? 0 : index, 1);
+
+            pairings.push([a, b!])
+        }
+
+        return pairings
+    }
+
+    #createMatch(round: number, pairing: [Tally, Tally]): TournamentMatch {
+        // The bot that has hosted fewer first games hosts this one.
+        if (pairing[1].hosted < pairing[0].hosted) pairing.reverse()
+
+        return {
+            id: ++this.#matchIds,
+            round,
+            players: [pairing[0].entrant.name, pairing[1].entrant.name],
+            score: [0, 0],
+            games: []
+        }
+    }
+
+    async #playMatch(match: TournamentMatch, pairing: [Tally, Tally]) {
+        const needed = Math.floor(this.bestOf / 2) + 1;
+        let table: Table | undefined;
+
+        this.matches.push(match)
+        pairing[0].hosted++
+        pairing[0].opponents.add(pairing[1].entrant.name)
+        pairing[1].opponents.add(pairing[0].entrant.name)
+
+        for (let game = 0; game < this.bestOf && match.score[0] < needed && match.score[1] < needed; game++) {
+            // Swap roles for every new connection in reconnecting series. Restarted games swap who fires first instead,
+            // as the bot that fired first last game leaves the other to begin.
+            const hostIndex = this.#options.series == "reconnect" ? game % 2 : 0;
+            const started = Date.now();
+            let result: GameResult;
+
+            if (table && this.#options.series == "restart") {
+                result = await this.#playGame(table, () => table!.clients[0].requestRestart())
+            } else {
+                table = await this.#seat(hostIndex ? [pairing[1], pairing[0]] : pairing)
+                result = await this.#playGame(table)
+            }
+
+            const record = this.#record(match, table, result, started);
+
+            if (result.winner === undefined || result.timeout || this.#options.series == "reconnect") {
+                this.#leave(table)
+                table = undefined
+            }
+
+            this.emit('game', record, match)
+        }
+
+        if (table) this.#leave(table)
+
+        const [a, b] = pairing;
+
+        if (match.score[0] == match.score[1]) {
+            a.matchesDrawn++
+            b.matchesDrawn++
+            a.points += 0.5
+            b.points += 0.5
+            return
+        }
+
+        const [winner, loser] = match.score[0] > match.score[1] ? [a, b] : [b, a];
+
+        match.winner = winner.entrant.name
+        winner.matchesWon++
+        winner.points++
+        loser.matchesLost++
+    }
+
+    /**
+     * Create both bots and connect them, the first one hosting.
+     * @returns {Promise<Table>} Resolves once the guest is connecting, or rejects if the host cannot listen.
+     */
+    #seat(tallies: [Tally, Tally]): Promise<Table> {
+        const clients: [NavalClient, NavalClient] = [tallies[0].entrant.create(), tallies[1].entrant.create()];
+        const table: Table = { clients, tallies, shots: [0, 0], referees: [] };
+
+        clients.forEach((client, i) => {
+            const opponent = tallies[1 - i]!;
+
+            client.on('sent', (message) => {
+                if (message instanceof MoveMessage) table.shots[i]!++
+            })
+            client.on('protocolViolation', () => opponent.violations++)
+            client.on('error', (err) => {
+                if (err instanceof ProtocolError) opponent.violations++
+            })
+
+            const referee = new Referee(client);
+
+            referee.on('violation', () => opponent.violations++)
+            table.referees.push(referee)
+        })
+
+        if (this.#options.transport == "loopback") {
+            const [hostEnd, guestEnd] = createLoopbackPair();
+
+            clients[0].open(hostEnd, { host: true })
+            clients[1].open(guestEnd)
+
+            return Promise.resolve(table)
+        }
+
+        return new Promise((resolve, reject) => {
+            const server = createServer((socket) => {
+                server.close()
+                clients[0].open(new TcpTransport(socket), { host: true })
+            });
+
+            server.on('error', (err) => {
+                server.close()
+                reject(err)
+            })
+            server.listen(0, '127.0.0.1', () => {
+                clients[1].connect((server.address() as AddressInfo).port, '127.0.0.1')
+                resolve(table)
+            })
+        })
+    }
+
+    /**
+     * Wait for a game to end, or give up on it.
+     * @param {Table} table The connected bots.
+     * @param {function(): void} [start] Starts the game, when the bots are already connected.
+     */
+    #playGame(table: Table, start?: () => void): Promise<GameResult> {
+        const [host, guest] = table.clients;
+
+        table.shots = [0, 0]
+
+        return new Promise(resolve => {
+            const finish = (result: GameResult) => {
+                clearTimeout(timer)
+                host.off('gameOver', onGameOver)
+                host.off('disconnect', onDisconnect)
+                guest.off('disconnect', onDisconnect)
+                resolve(result)
+            };
+            const onGameOver = (winner: Player) => finish({ winner: winner.me ? 0 : 1 })
+            const onDisconnect = () => finish({})
+            const timer = setTimeout(() => {
+                const stalled = table.clients.findIndex(client =>
+                    client.gameState == GameState.FIRE_SHIPS_SELF || client.gameState == GameState.AWAIT_RESPONSE_SELF
+                );
+
+                finish(stalled === -1 ? { timeout: [0, 1] } : { winner: 1 - stalled, timeout: [stalled] })
+            }, this.#options.gameTimeout);
+
+            host.on('gameOver', onGameOver)
+            host.on('disconnect', onDisconnect)
+            guest.on('disconnect', onDisconnect)
+
+            try {
+                start?.()
+            } catch {
+                finish({})
+            }
+        })
+    }
+
+    #record(match: TournamentMatch, table: Table, result: GameResult, started: number): TournamentGame {
+        const [host, guest] = table.tallies;
+        const game: TournamentGame = {
+            match: match.id,
+            host: host.entrant.name,
+            guest: guest.entrant.name,
+            shots: { [host.entrant.name]: table.shots[0], [guest.entrant.name]: table.shots[1] },
+            duration: Date.now() - started
+        };
+
+        for (const i of result.timeout ?? []) table.tallies[i]!.timeouts++
+
+        if (result.timeout?.length == 1) game.timeout = table.tallies[result.timeout[0]!]!.entrant.name
+
+        if (result.winner !== undefined) {
+            const winner = table.tallies[result.winner]!;
+            const loser = table.tallies[1 - result.winner]!;
+
+            game.winner = winner.entrant.name
+            winner.gamesWon++
+            loser.gamesLost++
+            match.score[match.players.indexOf(winner.entrant.name) as 0 | 1]++
+        }
+
+        if (result.winner !== undefined && !result.timeout) {
+            table.tallies[result.winner]!.sinkingWins++
+            table.tallies[result.winner]!.shots += table.shots[result.winner]!
+        }
+
+        match.games.push(game)
+        return game
+    }
+
+    /**
+     * Stop watching both bots and disconnect them.
+     */
+    #leave(table: Table) {
+        for (const referee of table.referees) referee.detach()
+
+        for (const client of table.clients) {
+            try {
+                client.disconnect()
+            } catch {
+                // The other bot already closed the connection.
+            }
+        }
+    }
+}
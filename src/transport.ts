@@ -0,0 +1,180 @@
+import EventEmitter from "node:events";
+import { createConnection, type Socket } from "node:net";
+import type { Duplex } from "node:stream";
+
+/**
+ * A connection to another client that a {@link NavalClient} talks through.
+ * @extends {EventEmitter}
+ */
+export abstract class Transport extends EventEmitter<{
+    // The connection is open and data can be written
+    connect: []
+
+    // Data arrived from the other client
+    data: [Buffer]
+
+    // The connection failed
+    error: [Error]
+
+    // The connection was closed, by either side
+    close: []
+}> {
+    /**
+     * The connection is open and data can be written.
+     * @event Transport#connect
+     */
+
+    /**
+     * Data arrived from the other client.
+     * @event Transport#data
+     * @param {Buffer} data The data received.
+     */
+
+    /**
+     * The connection failed.
+     * @event Transport#error
+     * @param {Error} err The error that occurred.
+     */
+
+    /**
+     * The connection was closed, by either side.
+     * @event Transport#close
+     */
+
+    /**
+     * Whether the connection has opened.
+     */
+    connected = false;
+
+    constructor() {
+        super();
+
+        this.once('connect', () => this.connected = true)
+    }
+
+    /**
+     * Send data to the other client.
+     * @param {string} data The data to send.
+     */
+    abstract write(data: string): void;
+
+    /**
+     * Close the connection gracefully.
+     */
+    abstract end(): void;
+}
+
+/**
+ * A transport over any Duplex stream, such as a Unix socket or a child process's stdio.
+ */
+export class StreamTransport extends Transport {
+    /**
+     * @param {Duplex} stream The stream to talk through.
+     * @param {boolean} [connecting] Whether the stream is still connecting, and will emit `connect` itself once open.
+     */
+    constructor(public stream: Duplex, connecting: boolean = false) {
+        super();
+
+        if (!connecting) process.nextTick(() => this.emit('connect'))
+
+        stream.on('data', (data: Buffer | string) => this.emit('data', typeof data === 'string' ? Buffer.from(data) : data))
+        stream.on('error', (err) => this.emit('error', err))
+        stream.on('close', () => this.emit('close'))
+    }
+
+    write(data: string): void {
+        this.stream.write(data)
+    }
+
+    end(): void {
+        this.stream.end()
+    }
+}
+
+/**
+ * A transport over a TCP socket, as used by KNavalBattle.
+ */
+export class TcpTransport extends StreamTransport {
+    constructor(public socket: Socket) {
+        super(socket, socket.connecting);
+
+        // Messages are small and often answered straight away, so don't hold them back to batch them.
+        socket.setNoDelay(true)
+
+        if (socket.connecting) socket.once('connect', () => this.emit('connect'))
+    }
+
+    /**
+     * Open a TCP connection to another client.
+     * @param {number} port The port that the other client is using
+     * @param {string} host The IP address of the other client
+     */
+    static connect(port: number, host: string): TcpTransport {
+        return new TcpTransport(createConnection({ host, port }))
+    }
+}
+
+/**
+ * One end of an in-memory connection made by {@link createLoopbackPair}.
+ */
+export class LoopbackTransport extends Transport {
+    /**
+     * The other end of this connection.
+     */
+    peer?: LoopbackTransport;
+    #closed = false;
+
+    write(data: string): void {
+        if (this.#closed) throw new Error('cannot write to a closed transport')
+
+        const peer = this.peer!;
+        const buffer = Buffer.from(data);
+
+        // Deliver asynchronously, like a real socket would.
+        setImmediate(() => {
+            if (!peer.#closed) peer.emit('data', buffer)
+        })
+    }
+
+    end(): void {
+        const peer = this.peer!;
+
+        // Let data written before closing arrive first.
+        setImmediate(() => {
+            this.#close()
+            peer.#close()
+        })
+    }
+
+    #close() {
+        if (this.#closed) return
+        this.#closed = true
+
+        this.emit('close')
+    }
+}
+
+/**
+ * Create two transports linked to each other in memory, e.g. to test two {@link NavalClient}s without real sockets.
+ * @returns Both ends of the connection.
+ * @example ```ts
+ * const [hostEnd, guestEnd] = createLoopbackPair();
+ *
+ * host.open(hostEnd, { host: true });
+ * guest.open(guestEnd);
+ * ```
+ */
+export function createLoopbackPair(): [LoopbackTransport, LoopbackTransport] {
+    const a = new LoopbackTransport();
+    const b = new LoopbackTransport();
+
+    a.peer = b;
+    b.peer = a;
+
+    setImmediate(() => {
+        a.emit('connect')
+        b.emit('connect')
+    })
+
+    return [a, b]
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { describe, it } from "node:test";
+import { Fleet, GameState, HuntTargetStrategy, NavalBot, NavalClient, TimeoutError } from "knavalbattle.js";
+import { connectPair, disconnect } from "./helpers.js";
+
+/**
+ * Place every ship on its own row, starting from the left.
+ */
+function rows(gameOptions) {
+    const fleet = new Fleet(gameOptions);
+
+    gameOptions.shipDefinitions.forEach((definition, i) => fleet.place(definition.name, 0, i * 2));
+    return fleet;
+}
+
+function bot(client, options = {}) {
+    const bot = new NavalBot(client, { placement: rows, targeting: new HuntTargetStrategy(), ...options });
+
+    bot.start();
+    return bot;
+}
+
+describe("NavalBot", () => {
+    it("plays a whole game against another bot", async () => {
+        const host = new NavalClient("Host");
+        const guest = new NavalClient("Guest");
+        const turns = [];
+
+        bot(host, { onTurn: (turn) => turns.push(turn) });
+        bot(guest);
+
+        const gameOver = Promise.all([once(host, "gameOver"), once(guest, "gameOver")]);
+
+        await connectPair(host, guest);
+
+        const [[hostWinner], [guestWinner]] = await gameOver;
+
+        assert.equal(hostWinner.nickname, guestWinner.nickname);
+        assert.notEqual(hostWinner.me, guestWinner.me);
+        assert.equal(host.gameState, GameState.GAME_OVER);
+        assert.ok(turns.length > 0);
+        assert.deepEqual(turns.map(turn => turn.number), turns.map((_, i) => i + 1));
+
+        await disconnect(host);
+    });
+
+    it("chats and plays again when restarts are enabled", async () => {
+        const host = new NavalClient("Host");
+        const guest = new NavalClient("Guest");
+        const chat = [];
+
+        bot(host, { acceptRestarts: true, banter: { greeting: (opponent) => `Hi ${opponent.nickname}!` } });
+        bot(guest, { acceptRestarts: true, requestRestarts: true });
+
+        const firstShots = [];
+
+        guest.on("chat", (message) => chat.push(message.text));
+        host.on("begin", () => firstShots.push(host.gameState == GameState.FIRE_SHIPS_SELF ? "Host" : "Guest"));
+
+        const twoGames = (client) => new Promise(resolve => client.on("gameOver", () => client.session.games == 2 && resolve()));
+        const played = Promise.all([twoGames(host), twoGames(guest)]);
+
+        await connectPair(host, guest);
+        await played;
+
+        assert.deepEqual(chat, ["Hi Guest!"]);
+        assert.equal(host.session.games, 2);
+        assert.equal(guest.session.games, 2);
+        assert.equal(host.session.wins, guest.session.losses);
+        assert.deepEqual(firstShots, ["Host", "Guest"]);
+
+        await disconnect(host);
+    });
+
+    it("reports a shot that fails through its error event", async () => {
+        const host = new NavalClient("Host", { shotTimeout: 10 });
+        const guest = new NavalClient("Guest");
+        const hostBot = bot(host);
+
+        // The guest has no bot or fleet, so the host's shot is never answered.
+        const failed = once(hostBot, "error");
+
+        await connectPair(host, guest);
+
+        const [err] = await failed;
+
+        assert.ok(err instanceof TimeoutError);
+
+        await disconnect(host);
+    });
+});
@@ -0,0 +1,196 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { after, before, describe, it } from "node:test";
+import { WebSocket } from "ws";
+import { NavalClient } from "knavalbattle.js";
+import { allowLoopbackPeers, NavalBridge } from "knavalbattle.js/bridge";
+import { disconnect, freePort } from "./helpers.js";
+
+/**
+ * Open a WebSocket session with the bridge, collecting the events it sends.
+ */
+async function openSession(port, nickname) {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/?nickname=${nickname}`);
+    const events = [];
+    const waiting = [];
+
+    socket.on("message", (data) => {
+        events.push(JSON.parse(data.toString()));
+
+        for (const wait of waiting.splice(0)) wait();
+    });
+
+    await once(socket, "open");
+
+    return {
+        socket,
+        send: (command) => socket.send(JSON.stringify(command)),
+
+        /**
+         * Wait for the next event of a kind, skipping any others.
+         */
+        async next(event) {
+            while (true) {
+                const index = events.findIndex(received => received.event == event);
+
+                if (index !== -1) return events.splice(0, index + 1).pop();
+
+                await new Promise(resolve => waiting.push(resolve));
+            }
+        }
+    };
+}
+
+describe("NavalBridge", () => {
+    let bridge;
+    let port;
+
+    before(async () => {
+        bridge = new NavalBridge({ port: 0, host: "127.0.0.1" });
+        await once(bridge.server, "listening");
+        port = bridge.server.address().port;
+    });
+
+    after(() => bridge.close());
+
+    it("plays a game against a client over TCP", async () => {
+        const peerPort = await freePort();
+        const host = new NavalClient("Host");
+        let shots = 0;
+
+        host.on("connect", () => host.sendBegin());
+        host.on("canFire", () => host.sendFireAt([shots++, 0]).catch(() => { }));
+        host.on("move", (move) => host.sendMoveResponse(move.respond("hit")));
+        host.listen(peerPort, "127.0.0.1");
+        await once(host, "listening");
+
+        const session = await openSession(port, "Alice");
+
+        session.send({ type: "connect", host: "127.0.0.1", port: peerPort });
+
+        const connected = await session.next("connect");
+
+        assert.equal(connected.opponent.nickname, "Host");
+        assert.equal(connected.gameOptions.boardWidth, 10);
+
+        const move = await session.next("move");
+
+        assert.deepEqual([move.x, move.y], [0, 0]);
+
+        session.send({ type: "sendMoveResponse", result: "sink" });
+        assert.deepEqual(await session.next("error"), {
+            event: "error",
+            message: "a sink needs sinkCoordinates: the [x, y] of both ends of the ship",
+            command: "sendMoveResponse"
+        });
+
+        session.send({ type: "sendMoveResponse", result: "miss" });
+        await session.next("canFire");
+
+        session.send({ type: "sendFireAt", x: 10, y: 0 });
+        assert.equal((await session.next("error")).command, "sendFireAt");
+
+        session.send({ type: "sendFireAt", x: 3, y: 4 });
+        assert.deepEqual(await session.next("fired"), { event: "fired", x: 3, y: 4, result: "Hit" });
+
+        session.send({ type: "sendChatMessage", text: "Hi!" });
+
+        const [chat] = await once(host, "chat");
+
+        assert.equal(chat.text, "Hi!");
+        assert.equal(chat.nickname, "Alice");
+
+        await disconnect(host);
+        assert.equal((await session.next("disconnect")).event, "disconnect");
+
+        session.socket.close();
+    });
+
+    it("only lets sessions connect to this machine by default", async () => {
+        const session = await openSession(port, "Mallory");
+
+        session.send({ type: "connect", host: "192.0.2.1", port: 80 });
+        assert.equal((await session.next("error")).message, "not allowed to connect to 192.0.2.1 80");
+
+        session.send({ type: "listen", port: 8081 });
+        assert.equal((await session.next("error")).message, "not allowed to listen to port 8081");
+
+        session.send({ type: "connect", host: "127.0.0.1", port: "54321" });
+        assert.equal((await session.next("error")).message, "port must be an integer from 1 to 65535");
+
+        session.socket.close();
+
+        assert.equal(allowLoopbackPeers("localhost", 54321), true);
+        assert.equal(allowLoopbackPeers("127.0.0.1", 54321), true);
+        assert.equal(allowLoopbackPeers("10.0.0.1", 54321), false);
+        assert.equal(allowLoopbackPeers(undefined, 54321), false);
+    });
+
+    it("only lets sessions connect where allowPeer allows", async () => {
+        const guarded = new NavalBridge({ port: 0, host: "127.0.0.1", allowPeer: (host) => host == "127.0.0.1" });
+
+        await once(guarded.server, "listening");
+
+        const session = await openSession(guarded.server.address().port, "Mallory");
+
+        session.send({ type: "connect", host: "192.0.2.1", port: 80 });
+        assert.equal((await session.next("error")).message, "not allowed to connect to 192.0.2.1 80");
+
+        session.send({ type: "listen", port: 8081 });
+        assert.equal((await session.next("error")).message, "not allowed to listen to port 8081");
+
+        session.socket.close();
+        await guarded.close();
+    });
+
+    it("reports commands it cannot read", async () => {
+        const session = await openSession(port, "Bob");
+
+        session.socket.send("not json");
+        assert.equal((await session.next("error")).message, "command is not valid JSON");
+
+        session.send({ type: "launchMissiles" });
+        assert.equal((await session.next("error")).message, 'unknown command "launchMissiles"');
+
+        session.socket.close();
+    });
+
+    it("checks the ships it is asked to place", async () => {
+        const session = await openSession(port, "Dave");
+        const attach = async (ships) => {
+            session.send({ type: "attachFleet", ships });
+
+            const error = await session.next("error");
+
+            assert.equal(error.command, "attachFleet");
+            return error.message;
+        };
+
+        assert.equal(await attach("frigate"), "ships must be a list");
+        assert.equal(await attach([null]), 'ship 1 has no "name"');
+        assert.equal(await attach([{ name: "frigate", x: 1.5, y: 0, orientation: "horizontal" }]), 'ship "frigate" needs integer "x" and "y" co-ordinates');
+        assert.equal(await attach([{ name: "frigate", x: "1", y: 0, orientation: "horizontal" }]), 'ship "frigate" needs integer "x" and "y" co-ordinates');
+        assert.equal(await attach([{ name: "frigate", x: 1, y: 0 }]), 'ship "frigate" must be "horizontal" or "vertical"');
+        assert.equal(await attach([{ name: "frigate", x: 9, y: 0, orientation: "horizontal" }]), 'ship "frigate" does not fit on the board at (10, 0)');
+
+        session.socket.close();
+    });
+
+    it("closes a session that breaks the WebSocket protocol, and keeps serving others", async () => {
+        const session = await openSession(port, "Eve");
+        const closed = once(session.socket, "close");
+
+        // An unmasked text frame, which clients must never send.
+        session.socket._socket.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+        await closed;
+
+        assert.equal(bridge.listenerCount("error"), 0);
+
+        const other = await openSession(port, "Bob");
+
+        other.send({ type: "launchMissiles" });
+        assert.equal((await other.next("error")).message, 'unknown command "launchMissiles"');
+
+        other.socket.close();
+    });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { execFile, spawn } from "node:child_process";
+import { once } from "node:events";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, it } from "node:test";
+import { Fleet, HuntTargetStrategy, NavalBot, NavalClient } from "knavalbattle.js";
+import { disconnect, freePort, SMALL_GAME } from "./helpers.js";
+
+const CLI = fileURLToPath(new URL("../dist/cli.js", import.meta.url));
+
+/**
+ * Run the CLI to completion.
+ */
+function run(...args) {
+    return promisify(execFile)(process.execPath, [CLI, ...args], { timeout: 10000 }).catch(err => err);
+}
+
+describe("knavalbattle", () => {
+    it("prints its usage", async () => {
+        const help = await run("--help");
+        const wrong = await run("join");
+
+        assert.equal(help.code ?? 0, 0);
+        assert.match(help.stdout, /knavalbattle host \[port\]/);
+        assert.equal(wrong.code, 1);
+        assert.match(wrong.stdout, /Usage:/);
+    });
+
+    it("refuses unknown options and bad ports without crashing", async () => {
+        const unknown = await run("host", "--colour");
+        const badPort = await run("host", "abc");
+        const outOfRange = await run("join", "localhost", "70000");
+
+        assert.equal(unknown.code, 1);
+        assert.match(unknown.stderr, /Unknown option '--colour'/);
+        assert.match(unknown.stdout, /Usage:/);
+        assert.equal(badPort.code, 1);
+        assert.match(badPort.stderr, /Port must be a number from 1 to 65535, not "abc"/);
+        assert.equal(outOfRange.code, 1);
+        assert.match(outOfRange.stderr, /not "70000"/);
+    });
+
+    it("plays a whole game with --bot", async () => {
+        const port = await freePort();
+        const host = new NavalClient("Host");
+
+        host.gameOptions = SMALL_GAME;
+        new NavalBot(host, {
+            placement: (gameOptions) => {
+                const fleet = new Fleet(gameOptions);
+
+                gameOptions.shipDefinitions.forEach((definition, i) => fleet.place(definition.name, 0, i * 2));
+                return fleet;
+            },
+            targeting: new HuntTargetStrategy()
+        }).start();
+
+        const gameOver = once(host, "gameOver");
+
+        host.listen(port, "127.0.0.1");
+        await once(host, "listening");
+
+        const cli = spawn(process.execPath, [CLI, "join", "127.0.0.1", String(port), "--bot", "--nick", "Terminal"], { stdio: "pipe" });
+        let output = "";
+
+        cli.stdout.on("data", (data) => output += data);
+
+        await gameOver;
+
+        assert.equal(host.opponent.nickname, "Terminal");
+        assert.match(output, /Playing against Host on a 5x5 board/);
+
+        // The terminal client exits once the host leaves.
+        const exited = once(cli, "exit");
+
+        await disconnect(host);
+        await exited;
+    });
+});
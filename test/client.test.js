@@ -0,0 +1,457 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer } from "node:net";
+import { Duplex, PassThrough } from "node:stream";
+import { describe, it } from "node:test";
+import {
+    acceptAnyPeer,
+    createLoopbackPair,
+    Fleet,
+    GameOptionsMessage,
+    GameState,
+    HeaderMessage,
+    Message,
+    MoveMessage,
+    NavalClient,
+    ProtocolError,
+    RejectMessage,
+    StateError,
+    StreamTransport,
+    TimeoutError
+} from "knavalbattle.js";
+import { connectPair, disconnect, freePort, settle, SMALL_GAME } from "./helpers.js";
+
+/**
+ * A host that plays the small game.
+ */
+function smallHost() {
+    const host = new NavalClient("Host");
+
+    host.gameOptions = SMALL_GAME;
+    return host;
+}
+
+describe("NavalClient", () => {
+    it("completes the handshake, and the guest follows the host's options", async () => {
+        const [host, guest] = await connectPair(smallHost());
+
+        assert.equal(host.opponent.nickname, "Guest");
+        assert.equal(guest.opponent.nickname, "Host");
+        assert.equal(host.gameState, GameState.SHIP_SETUP);
+        assert.equal(guest.gameState, GameState.SHIP_SETUP);
+        assert.deepEqual(guest.gameOptions, SMALL_GAME);
+
+        await disconnect(host);
+        assert.equal(guest.gameState, GameState.DISCONNECTED);
+    });
+
+    it("lets whoever sends Begin first fire first", async () => {
+        const [host, guest] = await connectPair();
+        const canFire = once(guest, "canFire");
+
+        guest.sendBegin();
+        await once(host, "begin");
+        await canFire;
+
+        assert.equal(guest.gameState, GameState.FIRE_SHIPS_SELF);
+        assert.equal(host.gameState, GameState.FIRE_SHIPS_OTHER);
+        await assert.rejects(host.sendFireAt([0, 0]), StateError);
+
+        await disconnect(host);
+    });
+
+    it("takes turns, whether the shot hits or not", async () => {
+        const [host, guest] = await connectPair(smallHost());
+
+        host.on("move", (move) => host.sendMoveResponse(move.respond("miss")));
+        host.sendBegin();
+        await once(host, "canFire");
+
+        const guestCanFire = once(guest, "canFire");
+        const hostMove = once(guest, "move");
+        const shot = host.sendFireAt([1, 1]);
+        const [move] = await hostMove;
+
+        assert.deepEqual([move.x, move.y], [1, 1]);
+        guest.sendMoveResponse(move.respond("hit"));
+
+        assert.equal((await shot).fieldState, "Hit");
+        assert.equal(host.gameState, GameState.FIRE_SHIPS_OTHER);
+        await guestCanFire;
+
+        assert.equal(guest.gameState, GameState.FIRE_SHIPS_SELF);
+        await assert.rejects(guest.sendFireAt([50, -3]), /outside the 5x5 board/);
+        assert.equal(guest.gameState, GameState.FIRE_SHIPS_SELF);
+
+        await guest.sendFireAt([2, 2]);
+        await assert.rejects(guest.sendFireAt([3, 3]), StateError);
+
+        await disconnect(host);
+    });
+
+    it("answers shots with an attached fleet and sends game over when it sinks", async () => {
+        const [host, guest] = await connectPair(smallHost());
+        const fleet = new Fleet(SMALL_GAME);
+
+        fleet.place("frigate", 0, 0);
+        fleet.place("minesweeper", 4, 4);
+        guest.attachFleet(fleet);
+
+        let guestShots = 0;
+
+        guest.on("canFire", () => guest.sendFireAt([guestShots++, 4]).catch(() => { }));
+        host.on("move", (move) => host.sendMoveResponse(move.respond("miss")));
+
+        host.sendBegin();
+        await once(host, "canFire");
+
+        for (const [x, y] of [[4, 4], [0, 0]]) {
+            const nextTurn = once(host, "canFire");
+
+            assert.notEqual((await host.sendFireAt([x, y])).fieldState, "Miss");
+            await nextTurn;
+        }
+
+        const gameOver = once(host, "gameOver");
+        const notification = await host.sendFireAt([1, 0]);
+        const [winner] = await gameOver;
+
+        assert.equal(notification.fieldState, "Sink");
+        assert.deepEqual(notification.sinkCoordinates, [[0, 0], [1, 0]]);
+        assert.equal(winner.me, true);
+        assert.equal(host.gameState, GameState.GAME_OVER);
+        assert.equal(guest.gameState, GameState.GAME_OVER);
+        assert.deepEqual(host.session, { opponent: "Guest", games: 1, wins: 1, losses: 0 });
+        assert.deepEqual(guest.session, { opponent: "Host", games: 1, wins: 0, losses: 1 });
+
+        await disconnect(host);
+    });
+
+    it("does not emit canFire after answering with the last sink", async () => {
+        const frigate = { ...SMALL_GAME, shipDefinitions: [{ name: "frigate", plural: "frigates", number: 1, size: 2 }] };
+        const [host, guest] = await connectPair(new NavalClient("Host", { gameOptions: frigate }));
+        let canFire = 0;
+
+        guest.on("canFire", () => canFire++);
+        host.sendBegin();
+        await once(host, "canFire");
+
+        host.sendFireAt([0, 0]);
+
+        const [move] = await once(guest, "move");
+
+        guest.sendMoveResponse(move.respond("sink", [[0, 0], [1, 0]]));
+        assert.equal(canFire, 0);
+
+        guest.sendGameOver();
+        assert.equal(guest.gameState, GameState.GAME_OVER);
+
+        await disconnect(host);
+    });
+
+    it("talks to a scripted peer through any Duplex stream", async () => {
+        const incoming = new PassThrough();
+        const outgoing = new PassThrough();
+        const client = new NavalClient("Guest");
+
+        client.open(new StreamTransport(Duplex.from({ readable: incoming, writable: outgoing })));
+        incoming.write(new HeaderMessage("0.1.0", "KBattleship", 4, "The Naval Battle game").toXML());
+
+        const [reply] = await once(outgoing, "data");
+
+        assert.ok(Message.fromXML(reply.toString()) instanceof HeaderMessage);
+
+        client.disconnect();
+    });
+
+    it("reports malformed messages through its error event", async () => {
+        const [peer, end] = createLoopbackPair();
+        const client = new NavalClient("Guest");
+        const errors = [];
+
+        client.on("error", (err) => errors.push(err));
+        client.open(end);
+        peer.write("<kmessage><msgtype>99</msgtype></kmessage>");
+        await settle();
+
+        assert.ok(errors[0] instanceof ProtocolError);
+        assert.equal(errors[0].field, "msgtype");
+
+        await disconnect(client);
+    });
+
+    it("reports malformed messages without throwing when nothing listens for errors", async () => {
+        const [peer, end] = createLoopbackPair();
+        const client = new NavalClient("Guest");
+        // Not once(), which listens for errors itself.
+        const received = new Promise(resolve => client.once("handshake", resolve));
+
+        client.open(end);
+        peer.write(`<!DOCTYPE kmessage>\n<kmessage><msgtype>4</msgtype><fieldx>-1</fieldx><fieldy>0</fieldy></kmessage>`);
+        peer.write(new HeaderMessage("0.1.0", "KBattleship", 4, "The Naval Battle game").toXML());
+        await received;
+
+        const errors = [];
+
+        client.on("error", (err) => errors.push(err));
+        peer.write("<kmessage><msgtype>99</msgtype></kmessage>");
+        await settle();
+
+        assert.ok(errors[0] instanceof ProtocolError);
+        assert.equal(errors[0].field, "msgtype");
+
+        await disconnect(client);
+    });
+
+    it("reports errors thrown by its own listeners, and keeps handling messages", async () => {
+        const [host, guest] = await connectPair();
+        const errors = [];
+        const texts = [];
+
+        guest.on("error", (err) => errors.push(err));
+        guest.once("chat", () => { throw new Error("listener failed"); });
+        guest.on("chat", (message) => texts.push(message.text));
+
+        host.sendChatMessage("Hi!");
+        host.sendChatMessage("Still there?");
+        await settle();
+
+        assert.equal(errors.length, 1);
+        assert.equal(errors[0].message, "listener failed");
+        assert.deepEqual(texts, ["Still there?"]);
+
+        await disconnect(host);
+    });
+
+    it("refuses game options that cannot be played", async () => {
+        const [peer, end] = createLoopbackPair();
+        const client = new NavalClient("Guest");
+        const errors = [];
+        const replies = [];
+
+        client.on("error", (err) => errors.push(err));
+        peer.on("data", (data) => replies.push(Message.fromXML(data.toString())));
+
+        const handshake = client.open(end);
+
+        peer.write(new HeaderMessage("0.1.0", "KBattleship", 4, "The Naval Battle game").toXML());
+        peer.write(new GameOptionsMessage(true, false, 4, 1000000, 1000000, SMALL_GAME.shipDefinitions).toXML());
+        await settle();
+
+        assert.equal(errors[0]?.field, "boardWidth");
+
+        peer.write(new GameOptionsMessage(true, false, 2, 1, 1, SMALL_GAME.shipDefinitions).toXML());
+
+        await assert.rejects(handshake, /invalid game options/);
+        assert.ok(replies.at(-1) instanceof RejectMessage);
+        assert.equal(client.gameState, GameState.DISCONNECTED);
+    });
+
+    it("introduces itself with its identity, and is rejected by a client speaking another version", async () => {
+        const host = new NavalClient("Host", { identity: { clientName: "Tester" } });
+        const guest = new NavalClient("Guest", { identity: { protocolVersion: "0.2.0" } });
+        const [hostEnd, guestEnd] = createLoopbackPair();
+        const handshake = once(guest, "handshake");
+        const rejected = once(host, "rejected");
+
+        host.open(hostEnd, { host: true });
+        guest.open(guestEnd);
+
+        const [[header], [reject]] = await Promise.all([handshake, rejected]);
+
+        assert.equal(header.clientName, "Tester");
+        assert.equal(header.clientVersion, 4);
+        assert.equal(reject.versionMismatch, true);
+        assert.match(reject.reason, /unsupported protocol version 0\.1\.0, expected 0\.2\.0/);
+
+        await settle();
+        assert.equal(host.gameState, GameState.DISCONNECTED);
+    });
+
+    it("plays with any client when its handshake policy allows it", async () => {
+        const host = new NavalClient("Host", { handshakePolicy: acceptAnyPeer });
+        const guest = new NavalClient("Guest", { identity: { protocolVersion: "0.2.0" }, handshakePolicy: acceptAnyPeer });
+
+        await connectPair(host, guest);
+
+        assert.equal(guest.opponent.nickname, "Host");
+
+        await disconnect(host);
+    });
+
+    it("gives up on shots that are not answered in time, or are aborted", async () => {
+        const [host, guest] = await connectPair(new NavalClient("Host", { shotTimeout: 10 }));
+
+        host.sendBegin();
+        await once(host, "canFire");
+
+        await assert.rejects(host.sendFireAt([1, 0], { signal: AbortSignal.abort() }), { name: "AbortError" });
+        await assert.rejects(host.sendFireAt([0, 0]), TimeoutError);
+
+        await disconnect(guest);
+    });
+
+    it("rejects a pending shot when the connection closes", async () => {
+        const [host, guest] = await connectPair();
+
+        host.sendBegin();
+        await once(host, "canFire");
+
+        const shot = host.sendFireAt([0, 0]);
+
+        await once(guest, "move");
+        guest.disconnect();
+
+        await assert.rejects(shot, /connection closed before the shot was answered/);
+    });
+
+    it("emits turnTimeout when the other client takes too long", async () => {
+        const [host, guest] = await connectPair(new NavalClient("Host", { turnTimeout: 10 }));
+        const canFire = once(guest, "canFire");
+
+        guest.sendBegin();
+        await canFire;
+
+        const [state] = await once(host, "turnTimeout");
+
+        assert.equal(state, GameState.FIRE_SHIPS_OTHER);
+
+        await disconnect(host);
+    });
+
+    it("reports why the connection was lost, and closes", async () => {
+        const [host, guest] = await connectPair();
+        const guestLost = once(guest, "disconnect");
+        const hostLost = once(host, "disconnect");
+        const closed = Promise.all([once(host, "close"), once(guest, "close")]);
+
+        host.disconnect();
+
+        assert.deepEqual(await hostLost, ["connection closed by this client"]);
+        assert.deepEqual(await guestLost, ["connection closed by the other client"]);
+        await closed;
+        assert.equal(guest.gameState, GameState.DISCONNECTED);
+    });
+
+    it("rejects the handshake when either client refuses the other", async () => {
+        const [hostEnd, guestEnd] = createLoopbackPair();
+        const host = new NavalClient("Host");
+        const guest = new NavalClient("Guest", { identity: { protocolVersion: "0.2.0" } });
+
+        await Promise.all([
+            assert.rejects(host.open(hostEnd, { host: true }), /rejected by the other client: unsupported protocol version/),
+            assert.rejects(guest.open(guestEnd), /rejected the other client: unsupported protocol version/)
+        ]);
+    });
+
+    it("connects again with backoff until it runs out of retries", async () => {
+        const port = await freePort();
+        const server = createServer((socket) => socket.destroy()).listen(port, "127.0.0.1");
+        const client = new NavalClient("Guest", { reconnect: { retries: 2, minDelay: 5 } });
+        const attempts = [];
+
+        await once(server, "listening");
+        client.on("reconnecting", (attempt, delay) => attempts.push([attempt, delay]));
+
+        // The handshake fails once the client gives up, and closes.
+        await assert.rejects(client.connect(port, "127.0.0.1"), /connection closed before the handshake completed/);
+
+        assert.deepEqual(attempts, [[1, 5], [2, 10]]);
+
+        server.close();
+    });
+
+    it("restarts when the other client accepts a restart request", async () => {
+        const [host, guest] = await connectPair();
+
+        guest.on("restartRequested", (request) => request.accept());
+        host.sendBegin();
+        await once(host, "canFire");
+
+        const restarted = Promise.all([once(host, "restart"), once(guest, "restart")]);
+
+        host.requestRestart();
+        await restarted;
+
+        assert.equal(host.gameState, GameState.SHIP_SETUP);
+        assert.equal(guest.gameState, GameState.SHIP_SETUP);
+
+        await disconnect(host);
+    });
+
+    it("keeps playing when the other client declines a restart request", async () => {
+        const [host, guest] = await connectPair();
+        const requested = once(guest, "restartRequested");
+
+        guest.on("restartRequested", (request) => request.decline());
+        host.sendBegin();
+        await once(host, "canFire");
+
+        host.requestRestart();
+        await requested;
+        await settle();
+
+        assert.equal(host.gameState, GameState.FIRE_SHIPS_SELF);
+        assert.equal(guest.gameState, GameState.FIRE_SHIPS_OTHER);
+
+        await disconnect(host);
+    });
+
+    it("asks again after a restart request goes unanswered", async () => {
+        const [host, guest] = await connectPair();
+
+        guest.once("restartRequested", (request) => request.decline());
+        guest.on("move", (move) => guest.sendMoveResponse(move.respond("miss")));
+        host.sendBegin();
+        await once(host, "canFire");
+
+        host.requestRestart();
+        await once(guest, "restartRequested");
+        await host.sendFireAt([0, 0]);
+
+        const requested = once(host, "restartRequested");
+        let restarted = false;
+
+        host.on("restart", () => restarted = true);
+        guest.requestRestart();
+        await requested;
+
+        assert.equal(restarted, false);
+        assert.equal(host.gameState, GameState.FIRE_SHIPS_OTHER);
+
+        await disconnect(host);
+    });
+
+    it("ignores messages that are not allowed in the current state", async () => {
+        const [peer, end] = createLoopbackPair();
+        const client = new NavalClient("Guest");
+
+        client.open(end);
+        await settle();
+
+        const violation = once(client, "protocolViolation");
+
+        peer.write(new MoveMessage(1, 1).toXML());
+
+        const [err, message] = await violation;
+
+        assert.ok(err instanceof StateError);
+        assert.ok(message instanceof MoveMessage);
+        assert.equal(client.gameState, GameState.DISCONNECTED);
+
+        await disconnect(client);
+    });
+
+    it("reports every change of state, with its cause", async () => {
+        const host = new NavalClient("Host");
+        const changes = [];
+
+        host.on("stateChange", (from, to, cause) => changes.push([from, to, cause.constructor.name]));
+        await connectPair(host);
+
+        assert.deepEqual(changes, [[GameState.DISCONNECTED, GameState.SHIP_SETUP, "NickMessage"]]);
+        assert.throws(() => host.sendGameOver(), StateError);
+
+        await disconnect(host);
+    });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ChatMessage, MessageDecoder, MoveMessage, NotificationMessage, ProtocolError } from "knavalbattle.js";
+
+/**
+ * Feed chunks into a new decoder, collecting the messages it emits.
+ */
+function decode(...chunks) {
+    const decoder = new MessageDecoder();
+    const messages = [];
+
+    decoder.on("message", (message, xmlStr) => messages.push({ message, xmlStr }));
+
+    for (const chunk of chunks) decoder.write(chunk);
+
+    return messages;
+}
+
+describe("MessageDecoder", () => {
+    it("decodes a document split in the middle", () => {
+        const xml = new MoveMessage(3, 7).toXML();
+        const [{ message, xmlStr }] = decode(xml.slice(0, 30), xml.slice(30));
+
+        assert.deepEqual(message, new MoveMessage(3, 7));
+        assert.equal(xmlStr, xml.trimEnd());
+    });
+
+    it("decodes a document written one byte at a time", () => {
+        const bytes = Buffer.from(new ChatMessage("Héllo 👋", "Zoë").toXML());
+        const messages = decode(...[...bytes].map(byte => Buffer.from([byte])));
+
+        assert.equal(messages.length, 1);
+        assert.equal(messages[0].message.text, "Héllo 👋");
+        assert.equal(messages[0].message.nickname, "Zoë");
+    });
+
+    it("keeps a character whose bytes are split across chunks", () => {
+        const bytes = Buffer.from(new ChatMessage("👋", "Alice").toXML());
+        const split = bytes.indexOf(Buffer.from("👋")) + 2;
+        const [{ message }] = decode(bytes.subarray(0, split), bytes.subarray(split));
+
+        assert.equal(message.text, "👋");
+    });
+
+    it("decodes several documents in one chunk", () => {
+        const notification = new NotificationMessage(3, 7, 1, true, [[3, 5], [3, 8]]);
+        const messages = decode(notification.toXML() + "\n" + new MoveMessage(1, 2).toXML());
+
+        assert.deepEqual(messages.map(({ message }) => message), [notification, new MoveMessage(1, 2)]);
+    });
+
+    it("starts every document at its DOCTYPE prolog", () => {
+        const xml = new MoveMessage(0, 0).toXML().trimEnd();
+        const messages = decode(`\n  ${xml}${xml.slice(0, 10)}`, xml.slice(10));
+
+        assert.ok(xml.startsWith("<!DOCTYPE kmessage>"));
+        assert.deepEqual(messages.map(({ xmlStr }) => xmlStr), [xml, xml]);
+    });
+
+    it("discards a partial document on reset", () => {
+        const decoder = new MessageDecoder();
+        const messages = [];
+        const xml = new MoveMessage(5, 5).toXML();
+
+        decoder.on("message", (message) => messages.push(message));
+        decoder.write(xml.slice(0, 40));
+        decoder.reset();
+        decoder.write(xml);
+
+        assert.deepEqual(messages, [new MoveMessage(5, 5)]);
+    });
+
+    it("gives up on a document that never ends", () => {
+        const decoder = new MessageDecoder();
+        const messages = [];
+        const errors = [];
+        const chunk = "x".repeat(64 * 1024);
+
+        decoder.on("message", (message) => messages.push(message));
+        decoder.on("error", (err) => errors.push(err));
+        decoder.write("<!DOCTYPE kmessage>\n<kmessage><msgtype>9</msgtype><chat>");
+
+        for (let i = 0; i < 15; i++) decoder.write(chunk);
+
+        assert.deepEqual(errors, []);
+
+        decoder.write(chunk);
+        decoder.write(new MoveMessage(1, 2).toXML());
+
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof ProtocolError);
+        assert.match(errors[0].message, /no document ended within 1048576 characters/);
+        assert.deepEqual(messages, [new MoveMessage(1, 2)]);
+    });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Fleet, MoveMessage } from "knavalbattle.js";
+
+const OPTIONS = {
+    adjacentShips: false,
+    allowMultipleOfSame: true,
+    longestShip: 3,
+    boardWidth: 6,
+    boardHeight: 6,
+    shipDefinitions: [
+        { name: "minesweeper", plural: "minesweepers", number: 2, size: 1 },
+        { name: "cruise", plural: "cruises", number: 1, size: 3 }
+    ]
+};
+
+describe("Fleet", () => {
+    it("places ships horizontally and vertically", () => {
+        const fleet = new Fleet(OPTIONS);
+        const cruise = fleet.place("cruise", 1, 2, "vertical");
+
+        assert.deepEqual(cruise.cells, [[1, 2], [1, 3], [1, 4]]);
+        assert.deepEqual(cruise.coordinates, [[1, 2], [1, 4]]);
+        assert.equal(fleet.shipAt(1, 3), cruise);
+        assert.equal(fleet.complete, false);
+
+        fleet.place("minesweeper", 5, 5);
+        fleet.place("minesweeper", 4, 0);
+
+        assert.equal(fleet.complete, true);
+        assert.doesNotThrow(() => fleet.check());
+    });
+
+    it("refuses ships that do not fit the game's options", () => {
+        const fleet = new Fleet(OPTIONS);
+
+        fleet.place("cruise", 0, 0);
+
+        assert.throws(() => fleet.place("carrier", 0, 3), /unknown ship "carrier"/);
+        assert.throws(() => fleet.place("minesweeper", 6, 0), /does not fit on the board at \(6, 0\)/);
+        assert.throws(() => fleet.place("minesweeper", 2, 0), /overlaps another ship at \(2, 0\)/);
+        assert.throws(() => fleet.place("minesweeper", 3, 1), /touches another ship at \(3, 1\)/);
+        assert.throws(() => fleet.place("minesweeper", 4.5, 3), /must start at integer co-ordinates, not \(4.5, 3\)/);
+        assert.throws(() => fleet.place("minesweeper", 4, NaN), /must start at integer co-ordinates/);
+        assert.equal(fleet.ships.length, 1);
+
+        fleet.place("minesweeper", 5, 5);
+        fleet.place("minesweeper", 0, 5);
+
+        assert.throws(() => fleet.place("minesweeper", 3, 3), /only 2 minesweepers allowed/);
+    });
+
+    it("reports missing ships when checked", () => {
+        const fleet = new Fleet(OPTIONS);
+
+        fleet.place("cruise", 0, 0);
+
+        assert.throws(() => fleet.check(), /expected 2 minesweepers, found 0/);
+    });
+
+    it("answers shots until every ship has sunk", () => {
+        const fleet = new Fleet(OPTIONS);
+
+        fleet.place("cruise", 0, 0);
+        fleet.place("minesweeper", 5, 5);
+        fleet.place("minesweeper", 0, 5);
+
+        assert.equal(fleet.respond(new MoveMessage(3, 3)).fieldState, "Miss");
+        assert.equal(fleet.respond(new MoveMessage(0, 0)).fieldState, "Hit");
+        assert.equal(fleet.respond(new MoveMessage(1, 0)).fieldState, "Hit");
+
+        const sink = fleet.respond(new MoveMessage(2, 0));
+
+        assert.equal(sink.fieldState, "Sink");
+        assert.deepEqual(sink.sinkCoordinates, [[0, 0], [2, 0]]);
+        assert.equal(fleet.receiveShot(2, 0).result, "hit");
+
+        fleet.receiveShot(5, 5);
+        assert.equal(fleet.defeated, false);
+
+        fleet.receiveShot(0, 5);
+        assert.equal(fleet.defeated, true);
+
+        fleet.reset();
+        assert.equal(fleet.defeated, false);
+    });
+});
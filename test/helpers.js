@@ -0,0 +1,62 @@
+import { once } from "node:events";
+import { createServer } from "node:net";
+import { createLoopbackPair, NavalClient } from "knavalbattle.js";
+
+/**
+ * A small game for tests: a minesweeper and a frigate on a 5x5 board.
+ */
+export const SMALL_GAME = {
+    adjacentShips: true,
+    allowMultipleOfSame: false,
+    longestShip: 2,
+    boardWidth: 5,
+    boardHeight: 5,
+    shipDefinitions: [
+        { name: "minesweeper", plural: "minesweepers", number: 1, size: 1 },
+        { name: "frigate", plural: "frigates", number: 1, size: 2 }
+    ]
+};
+
+/**
+ * Connect a hosting client and a joining client in memory, and wait for both handshakes.
+ */
+export async function connectPair(host = new NavalClient("Host"), guest = new NavalClient("Guest")) {
+    const [hostEnd, guestEnd] = createLoopbackPair();
+
+    await Promise.all([host.open(hostEnd, { host: true }), guest.open(guestEnd)]);
+
+    return [host, guest];
+}
+
+/**
+ * Disconnect a client, and wait for it to close.
+ */
+export async function disconnect(client) {
+    const closed = once(client, "close");
+
+    client.disconnect();
+    await closed;
+}
+
+/**
+ * Wait for messages written to an in-memory connection to be delivered.
+ */
+export function settle() {
+    return new Promise(resolve => setImmediate(() => setImmediate(resolve)));
+}
+
+/**
+ * Find a TCP port that nothing is listening on.
+ */
+export async function freePort() {
+    const server = createServer().listen(0, "127.0.0.1");
+
+    await once(server, "listening");
+
+    const { port } = server.address();
+
+    server.close();
+    await once(server, "close");
+
+    return port;
+}
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    formatGridLayout,
+    formatJSONLayout,
+    LayoutError,
+    parseGridLayout,
+    parseJSONLayout,
+    parseLayout,
+    sinkCoordinates,
+    toLayout
+} from "knavalbattle.js";
+
+const GAME = {
+    adjacentShips: false,
+    allowMultipleOfSame: false,
+    longestShip: 3,
+    boardWidth: 5,
+    boardHeight: 5,
+    shipDefinitions: [
+        { name: "minesweeper", plural: "minesweepers", number: 1, size: 1 },
+        { name: "frigate", plural: "frigates", number: 1, size: 2 },
+        { name: "cruise", plural: "cruises", number: 1, size: 3 }
+    ]
+};
+
+const GRID = `
+# A comment
+C C C . .
+. . . . F
+M . . . F
+. . . . .
+. . . . .
+`;
+
+const LAYOUT = [
+    { ship: "cruise", x: 0, y: 0, orientation: "horizontal" },
+    { ship: "frigate", x: 4, y: 1, orientation: "vertical" },
+    { ship: "minesweeper", x: 0, y: 2, orientation: "horizontal" }
+];
+
+/**
+ * Check that parsing fails with a LayoutError at a line and column.
+ */
+function assertLayoutError(parse, message, line, column) {
+    assert.throws(parse, (err) => err instanceof LayoutError && err.message.includes(message) && err.line === line && err.column === column);
+}
+
+describe("parseGridLayout", () => {
+    it("reads ships from their letters and sizes", () => {
+        assert.deepEqual(toLayout(parseGridLayout(GRID, GAME)), LAYOUT);
+        assert.deepEqual(toLayout(parseLayout(GRID.replaceAll(" ", "").replaceAll("\n", "\r\n"), GAME)), LAYOUT);
+    });
+
+    it("points at the cell that is wrong", () => {
+        assertLayoutError(() => parseGridLayout(GRID.replace("M", "?"), GAME), `"?" is neither water`, 5, 1);
+        assertLayoutError(() => parseGridLayout(GRID.replace(". . . . F\nM", ". . . . F .\nM"), GAME), "the board only has 5 columns", 4, 11);
+        assertLayoutError(() => parseGridLayout(GRID.replace("M . . . F", "M . . F"), GAME), "row has 4 cells", 5, 8);
+        assertLayoutError(() => parseGridLayout(GRID + ". . . . .\n", GAME), "the board only has 5 rows", 8, undefined);
+        assertLayoutError(() => parseGridLayout(GRID.replace("C C C . .\n. . . . F\nM . . . F", "C C . . .\n. . C . F\nM . . . F"), GAME), `ship "C" is not a straight line`, 4, 5);
+        assertLayoutError(() => parseGridLayout(GRID.replace(/\. \. \. \. \.\n$/, "B B B B .\n"), GAME), `ship "B" has a size of 4`, 7, 1);
+        assertLayoutError(() => parseGridLayout(GRID.replace(". . . . .\n. . . . .\n", ". . . . .\n"), GAME), "layout has 4 rows", undefined, undefined);
+    });
+
+    it("reports ships that break the rules", () => {
+        assertLayoutError(() => parseGridLayout(GRID.replace(". . . . F\nM", "M . . . F\n."), GAME), "touches", 4, 1);
+        assert.throws(() => parseGridLayout(GRID.replace("M", "."), GAME), (err) => err instanceof LayoutError && err.line === undefined);
+    });
+});
+
+describe("parseJSONLayout", () => {
+    it("reads an array of ships", () => {
+        assert.deepEqual(toLayout(parseJSONLayout(JSON.stringify(LAYOUT), GAME)), LAYOUT);
+        assert.deepEqual(toLayout(parseLayout(`  ${JSON.stringify(LAYOUT)}`, GAME)), LAYOUT);
+    });
+
+    it("points at the entry that is wrong", () => {
+        const text = formatJSONLayout(parseJSONLayout(JSON.stringify(LAYOUT), GAME));
+
+        assertLayoutError(() => parseJSONLayout(text.replace('"x":4', '"x":1.5'), GAME), `ship "frigate" needs integer "x" and "y" co-ordinates`, 3, 5);
+        assertLayoutError(() => parseJSONLayout(text.replace('"vertical"', '"diagonal"'), GAME), `ship "frigate" must be "horizontal" or "vertical"`, 3, 5);
+        assertLayoutError(() => parseJSONLayout(text.replace('"minesweeper"', '"submarine"'), GAME), "submarine", 4, 5);
+        assertLayoutError(() => parseJSONLayout(text.replace("{", "7, {"), GAME), `ship 1 has no "ship" name`, 2, 5);
+        assert.throws(() => parseJSONLayout("[\n    {,\n]", GAME), (err) => err instanceof LayoutError && err.line == 2);
+        assert.throws(() => parseJSONLayout("{}", GAME), /layout must be an array of ships/);
+    });
+});
+
+describe("formatting layouts", () => {
+    it("reads back what it writes", () => {
+        const fleet = parseGridLayout(GRID, GAME);
+
+        assert.equal(formatGridLayout(fleet), "C C C . .\n. . . . F\nM . . . F\n. . . . .\n. . . . .\n");
+        assert.deepEqual(toLayout(parseGridLayout(formatGridLayout(fleet), GAME)), LAYOUT);
+        assert.deepEqual(toLayout(parseJSONLayout(formatJSONLayout(fleet), GAME)), LAYOUT);
+        assert.deepEqual(JSON.parse(formatJSONLayout(fleet)), LAYOUT);
+    });
+});
+
+describe("sinkCoordinates", () => {
+    it("gives where each ship starts and ends", () => {
+        assert.deepEqual(sinkCoordinates(LAYOUT, GAME), [[[0, 0], [2, 0]], [[4, 1], [4, 2]], [[0, 2], [0, 2]]]);
+        assert.throws(() => sinkCoordinates([{ ship: "submarine", x: 0, y: 0, orientation: "vertical" }], GAME), /unknown ship "submarine"/);
+    });
+});
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer } from "node:net";
+import { describe, it } from "node:test";
+import { createLoopbackPair, NavalClient, NavalLobby } from "knavalbattle.js";
+import { freePort, settle } from "./helpers.js";
+
+/**
+ * Join a lobby in memory, and wait until it has queued the player.
+ */
+async function join(lobby, nickname) {
+    const [lobbyEnd, playerEnd] = createLoopbackPair();
+    const client = new NavalClient(nickname);
+    const chats = [];
+
+    client.on("chat", (message) => chats.push(message.text));
+    lobby.accept(lobbyEnd);
+    await client.open(playerEnd);
+    await settle();
+
+    return { client, chats };
+}
+
+describe("NavalLobby", () => {
+    it("matches waiting players with each other", async () => {
+        const lobby = new NavalLobby();
+        const matched = new Promise(resolve => lobby.once("match", resolve));
+
+        const alice = await join(lobby, "Alice");
+
+        assert.deepEqual(lobby.waiting.map(player => player.nickname), ["Alice"]);
+
+        const bob = await join(lobby, "Bob");
+        const match = await matched;
+
+        await settle();
+
+        assert.deepEqual(match.players.map(player => player.nickname), ["Alice", "Bob"]);
+        assert.deepEqual(lobby.waiting, []);
+        assert.equal(alice.client.opponent.nickname, "Lobby");
+        assert.ok(alice.chats.includes("You are playing against Bob. Place your ships!"));
+        assert.ok(bob.chats.includes("You are playing against Alice. Place your ships!"));
+
+        lobby.close();
+    });
+
+    it("matches a player left waiting with a bot", async () => {
+        const lobby = new NavalLobby({ botDelay: 30 });
+        const matched = new Promise(resolve => lobby.once("match", resolve));
+
+        lobby.addBot(() => new NavalClient("Bot"));
+        await join(lobby, "Carol");
+
+        const match = await matched;
+
+        assert.deepEqual(match.players.map(player => player.nickname), ["Carol", "Bot"]);
+        assert.deepEqual(lobby.waiting, []);
+
+        lobby.close();
+    });
+
+    it("only matches players that are still waiting with a bot", async () => {
+        const lobby = new NavalLobby({ botDelay: 30 });
+        const matches = [];
+
+        lobby.on("match", (match) => matches.push(match.players.map(player => player.nickname)));
+        lobby.addBot(() => new NavalClient("Bot"));
+
+        await join(lobby, "Alice");
+        await join(lobby, "Bob");
+
+        // Alice's bot was due now, but she has been paired with Bob since.
+        await new Promise(resolve => setTimeout(resolve, 60));
+
+        assert.deepEqual(matches, [["Alice", "Bob"]]);
+
+        const botMatch = new Promise(resolve => lobby.once("match", resolve));
+
+        await join(lobby, "Carol");
+        await botMatch;
+
+        assert.deepEqual(matches, [["Alice", "Bob"], ["Carol", "Bot"]]);
+        assert.deepEqual(lobby.waiting, []);
+
+        lobby.close();
+    });
+
+    it("rejects listen when the port is in use", async () => {
+        const port = await freePort();
+        const server = createServer().listen(port, "127.0.0.1");
+
+        await once(server, "listening");
+
+        const lobby = new NavalLobby();
+
+        await assert.rejects(lobby.listen(port, "127.0.0.1"), { code: "EADDRINUSE" });
+
+        server.close();
+        await once(server, "close");
+
+        // The lobby can try again once the port is free.
+        await lobby.listen(port, "127.0.0.1");
+        lobby.close();
+    });
+});
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    BeginMessage,
+    ChatMessage,
+    DEFAULT_GAME_OPTIONS,
+    GameOptionsMessage,
+    GameOverMessage,
+    HeaderMessage,
+    Message,
+    MoveMessage,
+    NickMessage,
+    NotificationMessage,
+    ProtocolError,
+    RejectMessage,
+    RestartMessage
+} from "knavalbattle.js";
+
+const BOARD = { boardWidth: 10, boardHeight: 10 };
+
+const MESSAGES = [
+    new HeaderMessage("0.1.0", "KBattleship", 4, "The Naval Battle game"),
+    new RejectMessage(true, "unsupported protocol version"),
+    new NickMessage("Alice"),
+    new BeginMessage(),
+    new MoveMessage(3, 7),
+    new NotificationMessage(3, 7, 99),
+    new NotificationMessage(3, 7, 1, true, [[3, 5], [3, 8]]),
+    new GameOverMessage(),
+    new RestartMessage(),
+    new ChatMessage("Hello!", "Alice"),
+    new GameOptionsMessage(true, false, 4, 10, 10, [
+        { name: "minesweeper", plural: "minesweepers", number: 1, size: 1 },
+        { name: "frigate", plural: "frigates", number: 2, size: 3 }
+    ])
+];
+
+/**
+ * Wrap fields in a kmessage document.
+ */
+function kmessage(fields) {
+    return `<!DOCTYPE kmessage>\n<kmessage>${fields}</kmessage>`;
+}
+
+describe("Message", () => {
+    it("reads back every message it writes, as XML and as JSON", () => {
+        for (const message of MESSAGES) {
+            assert.deepEqual(Message.fromXML(message.toXML()), message);
+            assert.deepEqual(Message.fromJSON(JSON.parse(JSON.stringify(message.toJSON()))), message);
+        }
+    });
+
+    it("keeps text exactly as it was sent", () => {
+        for (const text of ["0x10", "1e3", "007", "true", "  hi  ", ""]) {
+            const chat = Message.fromXML(new ChatMessage(text, text).toXML());
+
+            assert.equal(chat.text, text);
+            assert.equal(chat.nickname, text);
+            assert.equal(Message.fromXML(new NickMessage(text).toXML()).nickname, text);
+        }
+    });
+
+    it("refuses numbers that are not written in decimal", () => {
+        for (const fieldx of ["0x1", "1e0", "", "one"]) {
+            const xml = `<!DOCTYPE kmessage>\n<kmessage><msgtype>4</msgtype><fieldx>${fieldx}</fieldx><fieldy>0</fieldy></kmessage>`;
+
+            assert.throws(() => Message.fromXML(xml), (err) => err instanceof ProtocolError && err.field == "fieldx");
+        }
+    });
+
+    it("checks co-ordinates against the board", () => {
+        assert.throws(() => Message.fromXML(new MoveMessage(10, 0).toXML(), BOARD), /fieldx must be less than the board width/);
+        assert.throws(() => Message.fromXML(new MoveMessage(0, -1).toXML()), /fieldy must be at least 0/);
+        assert.deepEqual(Message.fromXML(new MoveMessage(9, 9).toXML(), BOARD), new MoveMessage(9, 9));
+    });
+
+    it("refuses boards and ships that are too large", () => {
+        const huge = new GameOptionsMessage(true, false, 4, 1000000, 10, DEFAULT_GAME_OPTIONS.shipDefinitions);
+        const long = new GameOptionsMessage(true, false, 4, 10, 10, [{ name: "eel", plural: "eels", number: 1, size: 1000 }]);
+
+        assert.throws(() => Message.fromXML(huge.toXML()), (err) => err.field == "boardWidth");
+        assert.throws(() => Message.fromXML(long.toXML()), (err) => err.field == "ships[0].size");
+        assert.throws(() => Message.fromJSON(huge.toJSON()), (err) => err.field == "boardWidth");
+    });
+
+    it("reports the field that failed, with the raw XML", () => {
+        const xml = kmessage("<msgtype>4</msgtype><fieldx>1.5</fieldx><fieldy>0</fieldy>");
+
+        assert.throws(() => Message.fromXML(xml), (err) => err instanceof ProtocolError && err.field == "fieldx" && err.raw == xml);
+        assert.throws(() => Message.fromXML(kmessage("<msgtype>4</msgtype><fieldx>1</fieldx>")), (err) => err.field == "fieldy");
+        assert.throws(() => Message.fromXML(kmessage("<msgtype>42</msgtype>")), (err) => err.field == "msgtype");
+        assert.throws(() => Message.fromXML("<kmessage>"), ProtocolError);
+    });
+
+    it("only accepts a fieldstate of 1 or 99", () => {
+        const xml = new NotificationMessage(3, 7, 99).toXML().replace(">99<", ">5<");
+
+        assert.throws(() => Message.fromXML(xml), (err) => err.field == "fieldstate");
+    });
+
+    it("only accepts sinkCoordinates with a sink, and requires them", () => {
+        const sink = { type: "Notification", x: 3, y: 7, fieldState: "Sink" };
+
+        assert.deepEqual(new NotificationMessage(3, 7, 1).toJSON(), { type: "Notification", x: 3, y: 7, fieldState: "Hit" });
+        assert.throws(() => Message.fromJSON(sink), (err) => err instanceof ProtocolError && err.field == "sinkCoordinates");
+        assert.deepEqual(Message.fromJSON({ ...sink, sinkCoordinates: [[3, 5], [3, 8]] }), MESSAGES[6]);
+    });
+
+    it("reads game options with a single kind of ship", () => {
+        const ships = [{ name: "frigate", plural: "frigates", number: 1, size: 2 }];
+        const options = Message.fromXML(new GameOptionsMessage(true, false, 2, 5, 5, ships).toXML());
+
+        assert.deepEqual(options.shipDefinitions, ships);
+    });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CellState, MoveMessage, OpponentBoard } from "knavalbattle.js";
+
+const OPTIONS = {
+    adjacentShips: false,
+    allowMultipleOfSame: true,
+    longestShip: 2,
+    boardWidth: 4,
+    boardHeight: 4,
+    shipDefinitions: [
+        { name: "minesweeper", plural: "minesweepers", number: 1, size: 1 },
+        { name: "frigate", plural: "frigates", number: 1, size: 2 }
+    ]
+};
+
+describe("OpponentBoard", () => {
+    it("records misses and hits", () => {
+        const board = new OpponentBoard(OPTIONS);
+
+        board.record(new MoveMessage(0, 0).respond("miss"));
+        board.record(new MoveMessage(2, 2).respond("hit"));
+
+        assert.equal(board.cellState(0, 0), CellState.Miss);
+        assert.equal(board.cellState(2, 2), CellState.Hit);
+        assert.equal(board.cellState(3, 3), CellState.Unknown);
+        assert.deepEqual(board.openHits(), [[2, 2]]);
+        assert.equal(board.candidateCells().length, 14);
+        assert.throws(() => board.cellState(4, 0), /\(4, 0\) is not on the board/);
+    });
+
+    it("rules out the cells around a sunk ship when ships may not touch", () => {
+        const board = new OpponentBoard(OPTIONS);
+
+        board.record(new MoveMessage(1, 1).respond("hit"));
+        board.record(new MoveMessage(2, 1).respond("sink", [[1, 1], [2, 1]]));
+
+        assert.equal(board.cellState(1, 1), CellState.Sunk);
+        assert.equal(board.cellState(2, 1), CellState.Sunk);
+        assert.deepEqual(board.openHits(), []);
+
+        for (const [x, y] of [[0, 0], [3, 0], [0, 2], [3, 2], [1, 2]]) {
+            assert.equal(board.cellState(x, y), CellState.Impossible);
+        }
+
+        assert.deepEqual(board.candidateCells(), [[0, 3], [1, 3], [2, 3], [3, 3]]);
+        assert.deepEqual(board.sunkShips.map(ship => ship.definition.name), ["frigate"]);
+        assert.deepEqual(board.remainingShips().map(ship => ship.name), ["minesweeper"]);
+    });
+
+    it("leaves the cells around a sunk ship open when ships may touch", () => {
+        const board = new OpponentBoard({ ...OPTIONS, adjacentShips: true });
+
+        board.record(new MoveMessage(1, 1).respond("sink", [[1, 1], [1, 1]]));
+
+        assert.equal(board.cellState(1, 2), CellState.Unknown);
+        assert.equal(board.candidateCells().length, 15);
+    });
+
+    it("is cleared once every ship has sunk, until reset", () => {
+        const board = new OpponentBoard(OPTIONS);
+
+        board.record(new MoveMessage(0, 0).respond("sink", [[0, 0], [0, 0]]));
+        board.record(new MoveMessage(3, 3).respond("sink", [[3, 2], [3, 3]]));
+
+        assert.equal(board.cleared, true);
+
+        board.reset();
+
+        assert.equal(board.cleared, false);
+        assert.equal(board.candidateCells().length, 16);
+    });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    DEFAULT_GAME_OPTIONS,
+    GAME_OPTIONS_PRESETS,
+    GameOptionsBuilder,
+    GameOptionsMessage,
+    generateFleet,
+    Message,
+    validateGameOptions
+} from "knavalbattle.js";
+
+describe("GAME_OPTIONS_PRESETS", () => {
+    it("are valid and leave room for a fleet", () => {
+        for (const [name, gameOptions] of Object.entries(GAME_OPTIONS_PRESETS)) {
+            assert.doesNotThrow(() => validateGameOptions(gameOptions), name);
+            assert.doesNotThrow(() => generateFleet(gameOptions, { seed: 1 }).check(gameOptions), name);
+        }
+
+        assert.equal(GAME_OPTIONS_PRESETS.knavalbattle, DEFAULT_GAME_OPTIONS);
+    });
+});
+
+describe("GameOptionsBuilder", () => {
+    it("builds options from a preset, working out the longest ship", () => {
+        const gameOptions = new GameOptionsBuilder("knavalbattle")
+            .board(12, 8)
+            .adjacentShips(false)
+            .allowMultipleOfSame()
+            .ship("submarine", 3, 2)
+            .ship("carrier", 6)
+            .removeShip("minesweeper")
+            .build();
+
+        assert.deepEqual(gameOptions, {
+            adjacentShips: false,
+            allowMultipleOfSame: true,
+            longestShip: 6,
+            boardHeight: 8,
+            boardWidth: 12,
+            shipDefinitions: [
+                { name: "frigate", plural: "frigates", number: 1, size: 2 },
+                { name: "cruise", plural: "cruises", number: 1, size: 3 },
+                { name: "carrier", plural: "carriers", number: 1, size: 6 },
+                { name: "submarine", plural: "submarines", number: 2, size: 3 }
+            ]
+        });
+    });
+
+    it("returns a new copy every time, leaving the preset alone", () => {
+        const builder = new GameOptionsBuilder().clearShips().ship("raft", 1);
+        const first = builder.build();
+
+        first.shipDefinitions[0].size = 9;
+
+        assert.equal(builder.build().shipDefinitions[0].size, 1);
+        assert.equal(builder.build().longestShip, 1);
+        assert.equal(DEFAULT_GAME_OPTIONS.shipDefinitions.length, 4);
+    });
+
+    it("refuses options that do not make sense", () => {
+        assert.throws(() => new GameOptionsBuilder().board(0).build(), /board size must be positive integers, got 0x0/);
+        assert.throws(() => new GameOptionsBuilder().clearShips().build(), /there must be at least one kind of ship/);
+        assert.throws(() => new GameOptionsBuilder().clearShips().ship("raft", 1, 0).build(), /there must be at least one ship to place/);
+        assert.throws(() => new GameOptionsBuilder().ship("frigate", 2, 2).build(), /2 frigates need allowMultipleOfSame/);
+        assert.throws(() => new GameOptionsBuilder().ship("raft", 0).build(), /ship "raft" must have a positive size, got 0/);
+        assert.throws(() => new GameOptionsBuilder().board(3).build(), /longer than the 3x3 board/);
+        assert.throws(() => validateGameOptions({ ...DEFAULT_GAME_OPTIONS, longestShip: 5 }), /longestShip is 5, but the longest ship has a size of 4/);
+    });
+});
+
+describe("GameOptionsMessage", () => {
+    it("converts to and from game options", () => {
+        const message = GameOptionsMessage.fromGameOptions(GAME_OPTIONS_PRESETS.miltonBradley);
+
+        assert.deepEqual(Message.fromXML(message.toXML()).toGameOptions(), GAME_OPTIONS_PRESETS.miltonBradley);
+    });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkFleetFits, DEFAULT_GAME_OPTIONS, Fleet, generateFleet, randomPlacement, recordFleet, seededRandom } from "knavalbattle.js";
+
+/**
+ * Game options with a single kind of ship.
+ */
+function options(boardWidth, boardHeight, size, number, adjacentShips = false) {
+    return {
+        adjacentShips,
+        allowMultipleOfSame: true,
+        longestShip: size,
+        boardWidth,
+        boardHeight,
+        shipDefinitions: [{ name: "frigate", plural: "frigates", number, size }]
+    };
+}
+
+describe("generateFleet", () => {
+    it("makes the same legal fleet from the same seed", () => {
+        const fleet = generateFleet(DEFAULT_GAME_OPTIONS, { seed: 42 });
+
+        assert.doesNotThrow(() => fleet.check(DEFAULT_GAME_OPTIONS));
+        assert.deepEqual(recordFleet(generateFleet(DEFAULT_GAME_OPTIONS, { seed: 42 })), recordFleet(fleet));
+        assert.notDeepEqual(recordFleet(generateFleet(DEFAULT_GAME_OPTIONS, { seed: 43 })), recordFleet(fleet));
+    });
+
+    it("makes legal fleets in every style", () => {
+        const gameOptions = { ...DEFAULT_GAME_OPTIONS, adjacentShips: false };
+
+        for (const style of ["random", "edge", "spread", "clustered"]) {
+            for (let seed = 1; seed <= 5; seed++) {
+                assert.doesNotThrow(() => generateFleet(gameOptions, { seed, style }).check(gameOptions), `${style} from seed ${seed}`);
+            }
+        }
+    });
+
+    it("completes a fleet, keeping the ships already placed", () => {
+        const fleet = new Fleet(DEFAULT_GAME_OPTIONS);
+        const carrier = fleet.place("carrier", 0, 0, "vertical");
+
+        generateFleet(DEFAULT_GAME_OPTIONS, { seed: 1, fleet });
+
+        assert.ok(fleet.ships.includes(carrier));
+        assert.doesNotThrow(() => fleet.check(DEFAULT_GAME_OPTIONS));
+    });
+
+    it("refuses fleets that cannot fit before trying to place them", () => {
+        let calls = 0;
+        const random = () => (calls++, 0.5);
+
+        assert.throws(() => generateFleet(options(3, 3, 2, 3), { random }), /cannot fit on a 3x3 board without touching/);
+        assert.throws(() => generateFleet(options(3, 3, 2, 5, true), { random }), /the ships cover 10 cells, but the 3x3 board only has 9/);
+        assert.throws(() => generateFleet(options(4, 4, 5, 1, true), { random }), /a frigate of size 5 is longer than the 4x4 board/);
+        assert.throws(() => generateFleet(options(4, 4, 0, 1), { random }), /ship "frigate" has a size of 0/);
+        assert.throws(() => generateFleet(options(0, 4, 1, 1), { random }), /a 0x4 board has no room for ships/);
+        assert.equal(calls, 0);
+    });
+
+    it("gives up after trying 2000 placements", () => {
+        // Six frigates can fit on a 5x5 board without touching, but only in a few layouts.
+        const seeded = seededRandom(1);
+        let calls = 0;
+
+        assert.throws(() => generateFleet(options(5, 5, 2, 6), { random: () => (calls++, seeded()) }), /could not fit the fleet on the board/);
+        assert.equal(calls, 2000);
+    });
+});
+
+describe("checkFleetFits", () => {
+    it("accepts fleets that have room", () => {
+        assert.doesNotThrow(() => checkFleetFits(DEFAULT_GAME_OPTIONS));
+        assert.doesNotThrow(() => checkFleetFits(options(5, 5, 2, 6)));
+        assert.doesNotThrow(() => checkFleetFits(options(3, 3, 3, 3, true)));
+    });
+});
+
+describe("randomPlacement", () => {
+    it("places the same sequence of fleets from the same seed", () => {
+        const a = randomPlacement({ seed: 7 });
+        const b = randomPlacement({ seed: 7 });
+        const first = recordFleet(a(DEFAULT_GAME_OPTIONS));
+
+        assert.deepEqual(recordFleet(b(DEFAULT_GAME_OPTIONS)), first);
+        assert.notDeepEqual(recordFleet(a(DEFAULT_GAME_OPTIONS)), first);
+    });
+});
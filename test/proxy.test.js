@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { Fleet, HuntTargetStrategy, NavalBot, NavalClient, parseRecording, SpectatorProxy } from "knavalbattle.js";
+import { disconnect, freePort, SMALL_GAME } from "./helpers.js";
+
+/**
+ * Place every ship on its own row, starting from the left.
+ */
+function rows(gameOptions) {
+    const fleet = new Fleet(gameOptions);
+
+    gameOptions.shipDefinitions.forEach((definition, i) => fleet.place(definition.name, 0, i * 2));
+    return fleet;
+}
+
+describe("SpectatorProxy", () => {
+    it("watches and records a game between two clients", async () => {
+        const recordings = await mkdtemp(join(tmpdir(), "knavalbattle-"));
+        const hostPort = await freePort();
+        const proxyPort = await freePort();
+        const host = new NavalClient("Host");
+        const guest = new NavalClient("Guest");
+
+        host.gameOptions = SMALL_GAME;
+        new NavalBot(host, { placement: rows, targeting: new HuntTargetStrategy() }).start();
+        new NavalBot(guest, { placement: rows, targeting: new HuntTargetStrategy() }).start();
+
+        host.listen(hostPort, "127.0.0.1");
+        await once(host, "listening");
+
+        const proxy = new SpectatorProxy({ host: "127.0.0.1", port: hostPort }, { recordings });
+
+        await proxy.listen(proxyPort, "127.0.0.1");
+
+        const spectating = new Promise(resolve => proxy.once("spectate", resolve));
+        const gameOver = new Promise(resolve => guest.once("gameOver", resolve));
+
+        guest.connect(proxyPort, "127.0.0.1");
+
+        const spectator = await spectating;
+        const connected = new Promise(resolve => spectator.once("connect", (...nicknames) => resolve(nicknames)));
+        const watched = new Promise(resolve => spectator.once("gameOver", (...winner) => resolve(winner)));
+
+        assert.deepEqual(await connected, ["Host", "Guest"]);
+
+        const winner = await gameOver;
+        const [side, nickname] = await watched;
+
+        assert.equal(nickname, winner.nickname);
+        assert.equal(side, winner.me ? "guest" : "host");
+        assert.equal(spectator.gameOptions.boardWidth, 5);
+        assert.ok(spectator.shots.length > 0);
+        assert.ok(spectator.shots.every((shot, i) => shot.number == i + 1 && shot.move.x == shot.answer.x && shot.move.y == shot.answer.y));
+
+        const recorded = new Promise(resolve => proxy.once("recorded", resolve));
+        const hostClosed = new Promise(resolve => host.once("close", resolve));
+
+        await disconnect(guest);
+
+        const recording = parseRecording(await readFile(await recorded, "utf8"));
+
+        assert.equal(recording.nickname, "Host");
+        assert.equal(recording.opponent, "Guest");
+        assert.equal(recording.messages.length, spectator.messages.length);
+
+        await hostClosed;
+        proxy.close();
+        await rm(recordings, { recursive: true });
+    });
+
+    it("rejects listen when the port is in use", async () => {
+        const port = await freePort();
+        const server = createServer().listen(port, "127.0.0.1");
+
+        await once(server, "listening");
+
+        const proxy = new SpectatorProxy({ host: "127.0.0.1", port: 54321 });
+
+        await assert.rejects(proxy.listen(port, "127.0.0.1"), { code: "EADDRINUSE" });
+
+        server.close();
+        await once(server, "close");
+
+        // The proxy can try again once the port is free.
+        await proxy.listen(port, "127.0.0.1");
+        proxy.close();
+    });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { describe, it } from "node:test";
+import {
+    Fleet,
+    GameRecorder,
+    GameReplayer,
+    HuntTargetStrategy,
+    NavalBot,
+    NavalClient,
+    parseRecording
+} from "knavalbattle.js";
+import { connectPair, disconnect } from "./helpers.js";
+
+/**
+ * Place every ship on its own row, starting from the left.
+ */
+function rows(gameOptions) {
+    const fleet = new Fleet(gameOptions);
+
+    gameOptions.shipDefinitions.forEach((definition, i) => fleet.place(definition.name, 0, i * 2));
+    return fleet;
+}
+
+/**
+ * Play a game between two bots, recording the guest.
+ */
+async function recordGame() {
+    const host = new NavalClient("Host");
+    const guest = new NavalClient("Guest");
+    const recorder = new GameRecorder(guest);
+
+    for (const client of [host, guest]) {
+        new NavalBot(client, { placement: rows, targeting: new HuntTargetStrategy() }).start();
+    }
+
+    const gameOver = once(guest, "gameOver");
+
+    await connectPair(host, guest);
+
+    const [winner] = await gameOver;
+
+    await disconnect(host);
+
+    return { recording: parseRecording(recorder.toJSONL()), winner };
+}
+
+describe("GameRecorder and GameReplayer", () => {
+    it("records both sides of a game as JSON Lines", async () => {
+        const { recording } = await recordGame();
+
+        assert.equal(recording.host, false);
+        assert.equal(recording.nickname, "Guest");
+        assert.equal(recording.opponent, "Host");
+        assert.equal(recording.fleet.length, recording.gameOptions.shipDefinitions.length);
+        assert.ok(recording.messages.some(entry => entry.direction == "send"));
+        assert.ok(recording.messages.some(entry => entry.direction == "receive"));
+    });
+
+    it("steps through every shot of the recording", async () => {
+        const { recording, winner } = await recordGame();
+        const replayer = new GameReplayer(recording);
+        const turns = [];
+
+        for (let turn = replayer.step(); turn; turn = replayer.step()) turns.push(turn);
+
+        assert.ok(turns.every(turn => turn.answer));
+        assert.equal(winner.me ? replayer.opponentBoard.cleared : replayer.fleet.defeated, true);
+
+        replayer.rewind();
+        assert.deepEqual(replayer.step().move, turns[0].move);
+    });
+
+    it("plays the recording into a client, which ends the same way", async () => {
+        const { recording, winner } = await recordGame();
+        const replayer = new GameReplayer(recording);
+        const client = new NavalClient("Guest");
+        const mismatches = [];
+
+        replayer.on("mismatch", (expected) => mismatches.push(expected));
+
+        const gameOver = once(client, "gameOver");
+
+        await replayer.play(client);
+
+        const [replayed] = await gameOver;
+
+        assert.deepEqual(mismatches, []);
+        assert.deepEqual(replayed, winner);
+    });
+});
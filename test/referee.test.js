@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { describe, it } from "node:test";
+import { Fleet, NavalClient, Referee } from "knavalbattle.js";
+import { connectPair, disconnect, SMALL_GAME } from "./helpers.js";
+
+/**
+ * Start a small game where the guest fires first at a host that answers by hand.
+ */
+async function startGame() {
+    const host = new NavalClient("Host");
+
+    host.gameOptions = SMALL_GAME;
+
+    const [, guest] = await connectPair(host);
+    const fleet = new Fleet(SMALL_GAME);
+
+    fleet.place("frigate", 4, 3, "vertical");
+    fleet.place("minesweeper", 0, 4);
+    guest.attachFleet(fleet);
+
+    const canFire = once(guest, "canFire");
+
+    guest.sendBegin();
+    await canFire;
+
+    return [host, guest, new Referee(guest)];
+}
+
+/**
+ * Let the guest fire and the host answer, by hand or with its fleet, then give the guest its turn back with a shot that misses.
+ */
+async function exchange(host, guest, target, answer, comeback) {
+    if (answer) host.once("move", answer);
+
+    const notification = await guest.sendFireAt(target);
+
+    if (comeback) {
+        const canFire = once(guest, "canFire");
+
+        await host.sendFireAt(comeback);
+        await canFire;
+    }
+
+    return notification;
+}
+
+describe("Referee", () => {
+    it("reports a fair game as clean", async () => {
+        const [host, guest, referee] = await startGame();
+        const fleet = new Fleet(SMALL_GAME);
+        const report = once(referee, "report");
+
+        fleet.place("minesweeper", 0, 0);
+        fleet.place("frigate", 2, 2);
+        host.attachFleet(fleet);
+
+        await exchange(host, guest, [0, 0], undefined, [0, 1]);
+        await exchange(host, guest, [2, 2], undefined, [1, 1]);
+        await exchange(host, guest, [3, 2]);
+
+        const [result] = await report;
+
+        assert.deepEqual(result, { opponent: "Host", winner: "Guest", shots: 3, violations: [], verdict: "clean" });
+
+        await disconnect(host);
+    });
+
+    it("flags a sunk ship that was never hit", async () => {
+        const [host, guest, referee] = await startGame();
+        const violation = once(referee, "violation");
+
+        await exchange(host, guest, [0, 0], (move) => host.sendMoveResponse(move.respond("sink", [[0, 0], [1, 0]])));
+
+        const [result] = await violation;
+
+        assert.equal(result.rule, "sink-unhit");
+        assert.deepEqual(result.shot, [0, 0]);
+        assert.equal(referee.report().verdict, "cheating");
+
+        await disconnect(host);
+    });
+
+    it("flags a sunk ship that is not a straight line", async () => {
+        const [host, guest, referee] = await startGame();
+
+        await exchange(host, guest, [0, 0], (move) => host.sendMoveResponse(move.respond("sink", [[0, 0], [1, 1]])));
+
+        assert.deepEqual(referee.violations.map(violation => violation.rule), ["sink-shape"]);
+
+        await disconnect(host);
+    });
+
+    it("flags a game over while ships are still afloat", async () => {
+        const [host, guest, referee] = await startGame();
+        const report = once(referee, "report");
+
+        await exchange(host, guest, [0, 0], (move) => {
+            host.sendMoveResponse(move.respond("miss"));
+            host.sendGameOver();
+        });
+
+        const [result] = await report;
+
+        assert.ok(result.violations.some(violation => violation.rule == "early-game-over"));
+        assert.equal(result.verdict, "cheating");
+
+        await disconnect(host);
+    });
+});
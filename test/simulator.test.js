@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    DEFAULT_GAME_OPTIONS,
+    Fleet,
+    formatBatchReport,
+    HuntTargetStrategy,
+    ProbabilityDensityStrategy,
+    runSimulations,
+    seededRandom,
+    simulateGame
+} from "knavalbattle.js";
+
+/**
+ * Place every ship on its own row, starting from a column.
+ */
+function rows(gameOptions, column = 0) {
+    const fleet = new Fleet(gameOptions);
+
+    gameOptions.shipDefinitions.forEach((definition, i) => fleet.place(definition.name, column, i * 2));
+    return fleet;
+}
+
+const SHIPS = DEFAULT_GAME_OPTIONS.shipDefinitions.reduce((count, definition) => count + definition.number, 0);
+
+const HUNT = { name: "Hunt", placement: (gameOptions, random) => rows(gameOptions, Math.floor(random() * 4)), targeting: (random) => new HuntTargetStrategy(random) };
+const DENSITY = { name: "Density", placement: (gameOptions, random) => rows(gameOptions, Math.floor(random() * 4)), targeting: (random) => new ProbabilityDensityStrategy(random) };
+
+describe("simulateGame", () => {
+    const play = (seed, first) => simulateGame(
+        rows, new HuntTargetStrategy(seededRandom(seed)),
+        rows, new ProbabilityDensityStrategy(seededRandom(seed + 1)),
+        DEFAULT_GAME_OPTIONS,
+        { first }
+    );
+
+    it("plays the same game from the same seed", () => {
+        assert.deepEqual(play(7), play(7));
+        assert.notDeepEqual(play(7).moves, play(8).moves);
+    });
+
+    it("takes turns until the winner has sunk every ship", () => {
+        const result = play(3, "b");
+        const loser = result.winner == "a" ? "b" : "a";
+
+        for (const side of ["a", "b"]) assert.equal(result.moves.filter(move => move.side == side).length, result.shots[side]);
+
+        assert.ok(result.moves.every((move, i) => move.side == (i % 2 ? "a" : "b")));
+        assert.equal(result.moves.at(-1).side, result.winner);
+        assert.equal(result.moves.filter(move => move.side == result.winner && move.notification.fieldState == "Sink").length, SHIPS);
+        assert.ok(result.moves.filter(move => move.side == loser && move.notification.fieldState == "Sink").length < SHIPS);
+        assert.equal(result.shots[loser], result.winner == "b" ? result.shots.b - 1 : result.shots.a);
+    });
+
+    it("refuses a strategy that fires twice at the same co-ordinate", () => {
+        const stubborn = { nextTarget: () => [0, 9] };
+
+        assert.throws(() => simulateGame(rows, stubborn, rows, stubborn), /player a already fired at \(0, 9\)/);
+    });
+});
+
+describe("runSimulations", () => {
+    it("reports the same results from the same seed", () => {
+        const report = runSimulations(HUNT, DENSITY, { games: 20, seed: 42 });
+
+        assert.deepEqual(runSimulations(HUNT, DENSITY, { games: 20, seed: 42 }), report);
+        assert.equal(report.wins.a + report.wins.b, 20);
+        assert.equal(report.winRate.a, report.wins.a / 20);
+
+        for (const side of ["a", "b"]) {
+            const histogram = Object.entries(report.shotsToWin[side]);
+
+            assert.equal(histogram.reduce((games, [, count]) => games + count, 0), report.wins[side]);
+
+            if (report.wins[side]) {
+                const average = histogram.reduce((shots, [count, games]) => shots + Number(count) * games, 0) / report.wins[side];
+
+                assert.equal(report.averageShotsToWin[side], average);
+            }
+        }
+    });
+
+    it("describes a report as text", () => {
+        const text = formatBatchReport({
+            games: 3,
+            seed: 1,
+            names: { a: "Hunt", b: "Density" },
+            wins: { a: 1, b: 2 },
+            winRate: { a: 1 / 3, b: 2 / 3 },
+            averageShotsToWin: { a: 40, b: 35 },
+            shotsToWin: { a: { 40: 1 }, b: { 30: 1, 40: 1 } }
+        });
+
+        assert.equal(text, [
+            "Hunt vs Density: 3 games from seed 1",
+            "  Hunt     1 wins   33.3%  40.0 shots to win on average",
+            "  Density  2 wins   66.7%  35.0 shots to win on average",
+            "",
+            "Shots to win:",
+            "    30-39  Density  ############################## 1",
+            "    40-49  Hunt     ############################## 1",
+            "    40-49  Density  ############################## 1"
+        ].join("\n"));
+    });
+});
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    CellState,
+    HuntTargetStrategy,
+    MoveMessage,
+    OpponentBoard,
+    ProbabilityDensityStrategy,
+    RandomStrategy
+} from "knavalbattle.js";
+
+const OPTIONS = {
+    adjacentShips: false,
+    allowMultipleOfSame: true,
+    longestShip: 3,
+    boardWidth: 5,
+    boardHeight: 5,
+    shipDefinitions: [
+        { name: "frigate", plural: "frigates", number: 1, size: 2 },
+        { name: "cruise", plural: "cruises", number: 1, size: 3 }
+    ]
+};
+
+/**
+ * A repeatable source of random numbers for the strategies.
+ */
+function sequence(seed = 1) {
+    return () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+}
+
+/**
+ * Fire a strategy at a hidden ship until it sinks, answering every shot.
+ * @returns The co-ordinates fired at, in order.
+ */
+function sinkShip(strategy, cells) {
+    const board = new OpponentBoard(OPTIONS);
+    const hits = [];
+    const shots = [];
+
+    while (hits.length < cells.length) {
+        const [x, y] = strategy.nextTarget(board, OPTIONS);
+        const move = new MoveMessage(x, y);
+
+        assert.equal(board.cellState(x, y), CellState.Unknown, `fired at (${x}, ${y}) twice`);
+        shots.push([x, y]);
+
+        if (!cells.some(([cx, cy]) => cx == x && cy == y)) {
+            board.record(move.respond("miss"));
+            continue;
+        }
+
+        hits.push([x, y]);
+        board.record(hits.length == cells.length ? move.respond("sink", [cells[0], cells[cells.length - 1]]) : move.respond("hit"));
+    }
+
+    return shots;
+}
+
+describe("TargetingStrategy", () => {
+    it("fires at every cell once, at random", () => {
+        const board = new OpponentBoard(OPTIONS);
+        const strategy = new RandomStrategy(sequence());
+        const fired = new Set();
+
+        for (let i = 0; i < 25; i++) {
+            const [x, y] = strategy.nextTarget(board, OPTIONS);
+
+            fired.add(`${x},${y}`);
+            board.record(new MoveMessage(x, y).respond("miss"));
+        }
+
+        assert.equal(fired.size, 25);
+        assert.throws(() => strategy.nextTarget(board, OPTIONS), /no cells left to fire at/);
+    });
+
+    it("hunts on a checkerboard spaced by the smallest ship", () => {
+        const board = new OpponentBoard(OPTIONS);
+        const strategy = new HuntTargetStrategy(sequence());
+
+        for (let i = 0; i < 10; i++) {
+            const [x, y] = strategy.nextTarget(board, OPTIONS);
+
+            assert.equal((x + y) % 2, 0);
+            board.record(new MoveMessage(x, y).respond("miss"));
+        }
+    });
+
+    it("finishes off a hit ship along its line", () => {
+        const board = new OpponentBoard(OPTIONS);
+        const strategy = new HuntTargetStrategy(sequence());
+
+        board.record(new MoveMessage(2, 2).respond("hit"));
+
+        const next = strategy.nextTarget(board, OPTIONS);
+
+        assert.ok([[1, 2], [3, 2], [2, 1], [2, 3]].some(([x, y]) => x == next[0] && y == next[1]));
+
+        board.record(new MoveMessage(1, 2).respond("miss"));
+        board.record(new MoveMessage(3, 2).respond("hit"));
+
+        assert.deepEqual(strategy.nextTarget(board, OPTIONS), [4, 2]);
+    });
+
+    it("sinks a ship with every strategy", () => {
+        for (const strategy of [new RandomStrategy(sequence(2)), new HuntTargetStrategy(sequence(3)), new ProbabilityDensityStrategy(sequence(4))]) {
+            const shots = sinkShip(strategy, [[1, 3], [2, 3], [3, 3]]);
+
+            assert.ok(shots.length <= 25);
+        }
+    });
+
+    it("scores the middle of the board highest while hunting", () => {
+        const board = new OpponentBoard(OPTIONS);
+        const strategy = new ProbabilityDensityStrategy(sequence());
+        const density = strategy.density(board, OPTIONS);
+
+        assert.ok(density[2 * 5 + 2] > density[0]);
+        assert.deepEqual(strategy.nextTarget(board, OPTIONS), [2, 2]);
+    });
+
+    it("only counts placements through an open hit while targeting", () => {
+        const board = new OpponentBoard(OPTIONS);
+        const strategy = new ProbabilityDensityStrategy(sequence());
+
+        board.record(new MoveMessage(0, 0).respond("hit"));
+
+        const density = strategy.density(board, OPTIONS);
+        const [x, y] = strategy.nextTarget(board, OPTIONS);
+
+        assert.equal(density[4 * 5 + 4], 0);
+        assert.ok((x == 1 && y == 0) || (x == 0 && y == 1));
+    });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Fleet, HuntTargetStrategy, NavalBot, NavalClient, seededRandom, Tournament } from "knavalbattle.js";
+import { SMALL_GAME } from "./helpers.js";
+
+/**
+ * Place every ship on its own row, starting from the left.
+ */
+function rows(gameOptions) {
+    const fleet = new Fleet(gameOptions);
+
+    gameOptions.shipDefinitions.forEach((definition, i) => fleet.place(definition.name, 0, i * 2));
+    return fleet;
+}
+
+/**
+ * An entrant that plays small games with a seeded strategy.
+ */
+function entrant(name, seed) {
+    return {
+        name,
+        create: () => {
+            const client = new NavalClient(name);
+
+            client.gameOptions = SMALL_GAME;
+            new NavalBot(client, { placement: rows, targeting: new HuntTargetStrategy(seededRandom(seed)), acceptRestarts: true }).start();
+            return client;
+        }
+    };
+}
+
+describe("Tournament", () => {
+    it("plays every bot against every other bot once in a round-robin", async () => {
+        const tournament = new Tournament([entrant("Ann", 1), entrant("Ben", 2), entrant("Cat", 3)], { bestOf: 3 });
+        const rounds = [];
+
+        tournament.on("round", (round, matches) => rounds.push([round, matches.length]));
+
+        const standings = await tournament.run();
+        const pairs = tournament.matches.map(match => [...match.players].sort().join("-")).sort();
+
+        // With three bots, one sits out each round.
+        assert.deepEqual(rounds, [[1, 1], [2, 1], [3, 1]]);
+        assert.deepEqual(pairs, ["Ann-Ben", "Ann-Cat", "Ben-Cat"]);
+
+        for (const match of tournament.matches) {
+            assert.equal(Math.max(...match.score), 2);
+            assert.equal(match.winner, match.players[match.score.indexOf(2)]);
+            assert.equal(match.games.length, match.score[0] + match.score[1]);
+            assert.ok(match.games.every(game => game.winner && game.shots[game.winner] >= 3));
+        }
+
+        assert.equal(standings.reduce((points, standing) => points + standing.points, 0), 3);
+        assert.equal(standings.reduce((won, standing) => won + standing.gamesWon, 0), standings.reduce((lost, standing) => lost + standing.gamesLost, 0));
+        assert.ok(standings.every((standing, i) => i == 0 || standing.points <= standings[i - 1].points));
+        assert.ok(standings.every(standing => standing.timeouts == 0 && standing.violations == 0));
+        assert.deepEqual(tournament.toJSON().standings, standings);
+
+        const markdown = tournament.toMarkdown().split("\n");
+
+        assert.equal(markdown.length, 5);
+        assert.equal(markdown[0], "| # | Bot | Points | Matches (W-L-D) | Games (W-L) | Avg. shots | Timeouts | Violations |");
+        assert.match(markdown[2], new RegExp(`^\\| 1 \\| ${standings[0].name} \\| ${standings[0].points} \\| `));
+    });
+
+    it("avoids rematches in a Swiss tournament", async () => {
+        const tournament = new Tournament(
+            [entrant("Ann", 1), entrant("Ben", 2), entrant("Cat", 3), entrant("Dan", 4)],
+            { format: "swiss", rounds: 2, series: "reconnect" }
+        );
+
+        await tournament.run();
+
+        const pairs = tournament.matches.map(match => [...match.players].sort().join("-"));
+
+        assert.equal(pairs.length, 4);
+        assert.equal(new Set(pairs).size, 4);
+        assert.deepEqual(tournament.matches.map(match => match.round), [1, 1, 2, 2]);
+
+        // Winners of the first round meet in the second.
+        const winners = tournament.matches.slice(0, 2).map(match => match.winner).sort();
+
+        assert.ok(tournament.matches.slice(2).some(match => [...match.players].sort().join() == winners.join()));
+    });
+});